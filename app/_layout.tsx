@@ -1,5 +1,5 @@
 import { DarkTheme, DefaultTheme, ThemeProvider } from '@react-navigation/native';
-import { Stack, useRouter } from 'expo-router';
+import { Stack, usePathname, useRouter } from 'expo-router';
 import { StatusBar } from 'expo-status-bar';
 import { useEffect } from 'react';
 import { Pressable } from 'react-native';
@@ -10,7 +10,15 @@ import { useColorScheme } from '@/hooks/use-color-scheme';
 import { Colors } from '@/constants/theme';
 import Ionicons from '@expo/vector-icons/Ionicons';
 import { ErrorBoundary } from '@/components/error-boundary';
-import { reportError, isErrorReportingEnabled } from '@/lib/error-reporter';
+import {
+  addBreadcrumb,
+  isErrorReportingEnabled,
+  reportError,
+  setBeforeSendHook,
+  startBreadcrumbs,
+  startErrorReportQueue,
+} from '@/lib/error-reporter';
+import { symbolicateWithMetro } from '@/lib/symbolicate';
 
 function SettingsButton() {
   const router = useRouter();
@@ -63,6 +71,17 @@ function setupGlobalErrorHandlers(): void {
 
   console.log('[Appily] Setting up global error handlers');
 
+  // Point reports at source files instead of the Metro bundle while developing
+  if (__DEV__) {
+    setBeforeSendHook(symbolicateWithMetro);
+  }
+
+  // Deliver reports queued while offline or before the last crash
+  startErrorReportQueue();
+
+  // Record what happened before an error (navigation is tracked in RootLayout)
+  startBreadcrumbs();
+
   // Capture the original error handler to chain with it
   const originalHandler = ErrorUtils.getGlobalHandler();
 
@@ -112,11 +131,18 @@ function setupGlobalErrorHandlers(): void {
 export default function RootLayout() {
   const colorScheme = useColorScheme();
 
+  const pathname = usePathname();
+
   // Set up global error handlers on mount
   useEffect(() => {
     setupGlobalErrorHandlers();
   }, []);
 
+  // Leave a breadcrumb for every screen change so error reports show how the user got there
+  useEffect(() => {
+    addBreadcrumb({ category: 'navigation', message: pathname });
+  }, [pathname]);
+
   return (
     <SafeAreaProvider>
       <ErrorBoundary>
@@ -138,6 +164,13 @@ export default function RootLayout() {
                 headerLargeTitle: true,
               }}
             />
+            <Stack.Screen
+              name="ai-debug"
+              options={{
+                title: 'AI Requests',
+                headerLargeTitle: true,
+              }}
+            />
             <Stack.Screen
               name="modal"
               options={{
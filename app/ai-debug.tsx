@@ -0,0 +1,136 @@
+import { Alert, ScrollView, Share, StyleSheet, Switch } from 'react-native';
+import { useState } from 'react';
+
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { useAIRequestLog } from '@/hooks/use-ai-request-log';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import { Colors } from '@/constants/theme';
+import { TableViewGroup } from '@/components/ui/table-view-group';
+import { TableViewCell } from '@/components/ui/table-view-cell';
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import {
+  clearAIRequestLog,
+  configureAIRequestLog,
+  exportAIRequestLog,
+  isAIRequestLogEnabled,
+} from '@/lib/ai';
+
+export default function AIDebugScreen() {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+  const entries = useAIRequestLog();
+  const [isEnabled, setIsEnabled] = useState(isAIRequestLogEnabled());
+
+  const failedCount = entries.filter((entry) => !entry.success).length;
+
+  const toggleLogging = (value: boolean) => {
+    setIsEnabled(value);
+    configureAIRequestLog({ enabled: value });
+  };
+
+  const handleExport = async () => {
+    try {
+      await Share.share({ message: exportAIRequestLog() });
+    } catch (e) {
+      console.warn('[Appily] Failed to export AI request log:', e);
+    }
+  };
+
+  const handleClear = () => {
+    Alert.alert('Clear AI Request Log?', 'All recorded requests will be deleted.', [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Clear', style: 'destructive', onPress: clearAIRequestLog },
+    ]);
+  };
+
+  return (
+    <ThemedView style={styles.container}>
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.content}
+        contentInsetAdjustmentBehavior="automatic"
+      >
+        <TableViewGroup
+          header="Logging"
+          footer="Requests are stored on this device only. Cached responses are not logged because they use no quota."
+        >
+          <TableViewCell
+            title="Record AI Requests"
+            rightContent={<Switch value={isEnabled} onValueChange={toggleLogging} />}
+            showSeparator={false}
+          />
+        </TableViewGroup>
+
+        <TableViewGroup header="Summary">
+          <TableViewCell
+            title="Requests"
+            rightContent={<ThemedText style={{ color: colors.secondaryText }}>{entries.length}</ThemedText>}
+          />
+          <TableViewCell
+            title="Failed"
+            rightContent={<ThemedText style={{ color: colors.secondaryText }}>{failedCount}</ThemedText>}
+            showSeparator={false}
+          />
+        </TableViewGroup>
+
+        <TableViewGroup>
+          <TableViewCell
+            title="Export as JSON"
+            leftIcon={<IconSymbol name="square.and.arrow.up" size={20} color={colors.tint} />}
+            onPress={handleExport}
+          />
+          <TableViewCell
+            title="Clear Log"
+            leftIcon={<IconSymbol name="trash" size={20} color="#FF3B30" />}
+            onPress={handleClear}
+            showSeparator={false}
+          />
+        </TableViewGroup>
+
+        {entries.length > 0 && (
+          <TableViewGroup header="Recent Requests">
+            {entries.map((entry, index) => (
+              <TableViewCell
+                key={entry.id}
+                title={`${entry.endpoint.replace('/api/ai/', '')} · ${entry.success ? 'OK' : entry.errorCode}`}
+                subtitle={[
+                  new Date(entry.startedAt).toLocaleString(),
+                  entry.remainingRequests !== null ? `${entry.remainingRequests} left` : null,
+                  entry.prompt,
+                ]
+                  .filter(Boolean)
+                  .join(' · ')}
+                rightContent={
+                  <ThemedText
+                    style={[styles.latency, { color: entry.success ? colors.secondaryText : '#FF3B30' }]}
+                  >
+                    {entry.latencyMs} ms
+                  </ThemedText>
+                }
+                showSeparator={index < entries.length - 1}
+              />
+            ))}
+          </TableViewGroup>
+        )}
+      </ScrollView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  content: {
+    paddingHorizontal: 16,
+    paddingTop: 20,
+    paddingBottom: 40,
+  },
+  latency: {
+    fontSize: 14,
+  },
+});
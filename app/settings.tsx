@@ -1,5 +1,6 @@
 import { StyleSheet, Switch, Appearance, ScrollView } from 'react-native';
 import { useState, useEffect } from 'react';
+import { useRouter } from 'expo-router';
 
 import { ThemedView } from '@/components/themed-view';
 import { useColorScheme } from '@/hooks/use-color-scheme';
@@ -11,6 +12,7 @@ import { IconSymbol } from '@/components/ui/icon-symbol';
 export default function SettingsScreen() {
   const colorScheme = useColorScheme();
   const colors = Colors[colorScheme ?? 'light'];
+  const router = useRouter();
   const [isDarkMode, setIsDarkMode] = useState(colorScheme === 'dark');
 
   useEffect(() => {
@@ -49,6 +51,29 @@ export default function SettingsScreen() {
             showSeparator={false}
           />
         </TableViewGroup>
+
+        <TableViewGroup header="Developer">
+          <TableViewCell
+            title="AI Requests"
+            subtitle="See recent AI calls and where quota went"
+            leftIcon={
+              <IconSymbol
+                name="list.bullet.rectangle"
+                size={20}
+                color={colors.tint}
+              />
+            }
+            rightContent={
+              <IconSymbol
+                name="chevron.right"
+                size={16}
+                color={colors.tertiaryText}
+              />
+            }
+            onPress={() => router.push('/ai-debug')}
+            showSeparator={false}
+          />
+        </TableViewGroup>
       </ScrollView>
     </ThemedView>
   );
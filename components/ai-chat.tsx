@@ -0,0 +1,439 @@
+/**
+ * AIChat - A complete, theme-aware chat screen on top of lib/ai.ts
+ *
+ * Features:
+ * - Message bubbles styled with the Colors palette (light/dark mode)
+ * - Replies streamed in as they are written and rendered as markdown
+ * - Photo attachments from the library via expo-image-picker
+ * - Retry button when a request fails
+ * - Footer showing the remaining AI credits
+ * - Keyboard handling from examples/form-pattern.tsx
+ *
+ * @example
+ * export default function AssistantScreen() {
+ *   return (
+ *     <AIChat
+ *       systemPrompt="You are a friendly cooking assistant"
+ *       placeholder="Ask about a recipe..."
+ *     />
+ *   );
+ * }
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import {
+  ActivityIndicator,
+  Keyboard,
+  KeyboardAvoidingView,
+  Platform,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableWithoutFeedback,
+  View,
+} from 'react-native';
+import { Image } from 'expo-image';
+import * as ImagePicker from 'expo-image-picker';
+
+import { ThemedMarkdown } from '@/components/themed-markdown';
+import { ThemedTextInput } from '@/components/ui/themed-text-input';
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { Colors } from '@/constants/theme';
+import { useAIQuota } from '@/hooks/use-ai-quota';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import {
+  AIAbortedError,
+  compressImage,
+  streamChat,
+  type ChatMessage,
+  type ChatOptions,
+} from '@/lib/ai';
+
+interface AIChatProps {
+  /** Instructions for the assistant, sent with every request but never shown */
+  systemPrompt?: string;
+  /** Conversation to start from, e.g. restored from storage */
+  initialMessages?: ChatMessage[];
+  /** Called with the full conversation after every reply */
+  onMessagesChange?: (messages: ChatMessage[]) => void;
+  /** Input placeholder (default: "Message") */
+  placeholder?: string;
+  /** Text shown before the first message */
+  emptyText?: string;
+  /** Show the photo attachment button (default: true) */
+  allowImages?: boolean;
+  /** Show remaining AI credits below the input (default: true) */
+  showQuota?: boolean;
+  /** Model parameters and request settings passed to streamChat() */
+  options?: Omit<ChatOptions, 'signal'>;
+  /** Offset for the header height when the chat is inside a navigation stack */
+  keyboardVerticalOffset?: number;
+}
+
+const DANGER_COLOR = '#FF3B30';
+
+export function AIChat({
+  systemPrompt,
+  initialMessages = [],
+  onMessagesChange,
+  placeholder = 'Message',
+  emptyText = 'Ask me anything.',
+  allowImages = true,
+  showQuota = true,
+  options,
+  keyboardVerticalOffset = Platform.OS === 'ios' ? 100 : 0,
+}: AIChatProps) {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+  const quota = useAIQuota();
+
+  const scrollRef = useRef<ScrollView>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const [messages, setMessages] = useState<ChatMessage[]>(initialMessages);
+  const [input, setInput] = useState('');
+  const [attachments, setAttachments] = useState<string[]>([]);
+  const [isSending, setIsSending] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+  // Reply received so far while it is being streamed
+  const [streamingText, setStreamingText] = useState('');
+
+  // Cancel the pending request when the screen goes away
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const send = async (history: ChatMessage[]) => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+
+    setError(null);
+    setStreamingText('');
+    setIsSending(true);
+
+    try {
+      const result = await streamChat(
+        systemPrompt ? [{ role: 'system', content: systemPrompt }, ...history] : history,
+        (delta, text) => {
+          if (controllerRef.current === controller) {
+            setStreamingText(text);
+          }
+        },
+        { ...options, signal: controller.signal }
+      );
+
+      const next = [...history, result.message];
+      setMessages(next);
+      onMessagesChange?.(next);
+    } catch (e) {
+      if (e instanceof AIAbortedError) return;
+      setError(e instanceof Error ? e : new Error(String(e)));
+    } finally {
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+        setIsSending(false);
+        setStreamingText('');
+      }
+    }
+  };
+
+  const handleSend = () => {
+    const text = input.trim();
+    if ((!text && attachments.length === 0) || isSending) return;
+
+    const message: ChatMessage = {
+      role: 'user',
+      content: text,
+      images: attachments.length > 0 ? attachments : undefined,
+    };
+    const history = [...messages, message];
+
+    setMessages(history);
+    setInput('');
+    setAttachments([]);
+    send(history);
+  };
+
+  const handleRetry = () => {
+    if (!isSending) {
+      send(messages);
+    }
+  };
+
+  const handlePickImage = async () => {
+    try {
+      const picked = await ImagePicker.launchImageLibraryAsync({
+        mediaTypes: ['images'],
+        base64: true,
+        quality: 0.8,
+      });
+      const asset = picked.assets?.[0];
+      if (!picked.canceled && asset?.base64) {
+        // Attachments are re-sent with every later turn, so shrink them once here
+        const dataUrl = await compressImage(
+          `data:${asset.mimeType || 'image/jpeg'};base64,${asset.base64}`
+        );
+        setAttachments((current) => [...current, dataUrl]);
+      }
+    } catch (e) {
+      console.warn('[Appily] Failed to pick image:', e);
+    }
+  };
+
+  const visibleMessages = messages
+    .map((message, index) => ({ message, index }))
+    .filter(({ message }) => message.role === 'user' || message.role === 'assistant');
+  const canSend = (input.trim().length > 0 || attachments.length > 0) && !isSending;
+
+  return (
+    <KeyboardAvoidingView
+      style={[styles.container, { backgroundColor: colors.background }]}
+      behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      keyboardVerticalOffset={keyboardVerticalOffset}
+    >
+      <TouchableWithoutFeedback onPress={Keyboard.dismiss}>
+        <ScrollView
+          ref={scrollRef}
+          style={styles.scrollView}
+          contentContainerStyle={styles.scrollContent}
+          keyboardShouldPersistTaps="handled"
+          onContentSizeChange={() => scrollRef.current?.scrollToEnd({ animated: true })}
+        >
+          {visibleMessages.length === 0 && !isSending && (
+            <Text style={[styles.emptyText, { color: colors.tertiaryText }]}>{emptyText}</Text>
+          )}
+
+          {visibleMessages.map(({ message, index }) => {
+            const isUser = message.role === 'user';
+
+            return (
+              <View
+                key={index}
+                style={[
+                  styles.bubble,
+                  isUser
+                    ? [styles.userBubble, { backgroundColor: colors.tint }]
+                    : [styles.assistantBubble, { backgroundColor: colors.secondaryBackground }],
+                ]}
+              >
+                {message.images?.map((uri, i) => (
+                  <Image key={i} source={{ uri }} style={styles.messageImage} contentFit="cover" />
+                ))}
+                {message.content.length > 0 &&
+                  (isUser ? (
+                    <Text selectable style={[styles.messageText, { color: '#FFFFFF' }]}>
+                      {message.content}
+                    </Text>
+                  ) : (
+                    <ThemedMarkdown>{message.content}</ThemedMarkdown>
+                  ))}
+              </View>
+            );
+          })}
+
+          {isSending && (
+            <View
+              style={[
+                styles.bubble,
+                styles.assistantBubble,
+                { backgroundColor: colors.secondaryBackground },
+              ]}
+            >
+              {streamingText.length > 0 ? (
+                <ThemedMarkdown>{streamingText}</ThemedMarkdown>
+              ) : (
+                <ActivityIndicator color={colors.secondaryText} />
+              )}
+            </View>
+          )}
+
+          {error && !isSending && (
+            <View style={styles.errorContainer}>
+              <Text style={[styles.errorText, { color: DANGER_COLOR }]}>{error.message}</Text>
+              <Pressable
+                onPress={handleRetry}
+                style={({ pressed }) => [
+                  styles.retryButton,
+                  { borderColor: colors.border, opacity: pressed ? 0.6 : 1 },
+                ]}
+              >
+                <IconSymbol name="arrow.clockwise" size={16} color={colors.tint} />
+                <Text style={[styles.retryText, { color: colors.tint }]}>Retry</Text>
+              </Pressable>
+            </View>
+          )}
+        </ScrollView>
+      </TouchableWithoutFeedback>
+
+      <View
+        style={[
+          styles.composer,
+          { backgroundColor: colors.background, borderTopColor: colors.separator },
+        ]}
+      >
+        {attachments.length > 0 && (
+          <ScrollView horizontal keyboardShouldPersistTaps="handled" contentContainerStyle={styles.attachments}>
+            {attachments.map((uri, i) => (
+              <View key={i}>
+                <Image source={{ uri }} style={styles.attachmentImage} contentFit="cover" />
+                <Pressable
+                  onPress={() => setAttachments((current) => current.filter((_, j) => j !== i))}
+                  style={styles.removeAttachment}
+                  hitSlop={8}
+                >
+                  <IconSymbol name="xmark.circle.fill" size={20} color={colors.secondaryText} />
+                </Pressable>
+              </View>
+            ))}
+          </ScrollView>
+        )}
+
+        <View style={styles.inputRow}>
+          {allowImages && (
+            <Pressable onPress={handlePickImage} hitSlop={8} style={styles.iconButton}>
+              <IconSymbol name="photo" size={24} color={colors.tint} />
+            </Pressable>
+          )}
+          <ThemedTextInput
+            containerStyle={styles.inputContainer}
+            style={styles.input}
+            placeholder={placeholder}
+            value={input}
+            onChangeText={setInput}
+            multiline
+          />
+          <Pressable
+            onPress={handleSend}
+            disabled={!canSend}
+            hitSlop={8}
+            style={[styles.iconButton, { opacity: canSend ? 1 : 0.4 }]}
+          >
+            <IconSymbol name="paperplane.fill" size={24} color={colors.tint} />
+          </Pressable>
+        </View>
+
+        {showQuota && quota.remaining !== null && (
+          <Text
+            style={[
+              styles.quotaText,
+              { color: quota.isLow ? DANGER_COLOR : colors.tertiaryText },
+            ]}
+          >
+            {quota.remaining === 0
+              ? 'No AI credits left this period'
+              : quota.max !== null
+                ? `${quota.remaining}/${quota.max} AI credits left`
+                : `${quota.remaining} AI credits left`}
+          </Text>
+        )}
+      </View>
+    </KeyboardAvoidingView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    flexGrow: 1,
+    padding: 16,
+    gap: 8,
+  },
+  emptyText: {
+    fontSize: 15,
+    textAlign: 'center',
+    marginTop: 32,
+  },
+  bubble: {
+    maxWidth: '80%',
+    borderRadius: 18,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    gap: 8,
+  },
+  userBubble: {
+    alignSelf: 'flex-end',
+    borderBottomRightRadius: 4,
+  },
+  assistantBubble: {
+    alignSelf: 'flex-start',
+    borderBottomLeftRadius: 4,
+  },
+  messageText: {
+    fontSize: 16,
+    lineHeight: 22,
+  },
+  messageImage: {
+    width: 200,
+    height: 200,
+    borderRadius: 12,
+  },
+  errorContainer: {
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 8,
+  },
+  errorText: {
+    fontSize: 14,
+    textAlign: 'center',
+  },
+  retryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+  },
+  retryText: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  composer: {
+    borderTopWidth: StyleSheet.hairlineWidth,
+    paddingHorizontal: 12,
+    paddingTop: 8,
+    paddingBottom: 12,
+    gap: 8,
+  },
+  attachments: {
+    gap: 8,
+    paddingTop: 4,
+  },
+  attachmentImage: {
+    width: 64,
+    height: 64,
+    borderRadius: 8,
+  },
+  removeAttachment: {
+    position: 'absolute',
+    top: -6,
+    right: -6,
+  },
+  inputRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    gap: 8,
+  },
+  inputContainer: {
+    flex: 1,
+  },
+  input: {
+    maxHeight: 120,
+    paddingVertical: 10,
+  },
+  iconButton: {
+    paddingBottom: 10,
+  },
+  quotaText: {
+    fontSize: 12,
+    textAlign: 'center',
+  },
+});
+
+export default AIChat;
@@ -0,0 +1,435 @@
+/**
+ * ThemedMarkdown - Renders AI-generated markdown with the app's theme
+ *
+ * Supports a safe subset of markdown:
+ * - Headings, paragraphs, block quotes and horizontal rules
+ * - Bulleted and numbered lists (with nesting)
+ * - **bold**, *italic*, ~~strikethrough~~ and `inline code`
+ * - Fenced code blocks in the monospace font
+ * - Tables
+ * - [Links](https://example.com), opened with expo-linking (http, https, mailto and tel only)
+ *
+ * HTML and images are never rendered - they show up as plain text.
+ * All text is selectable so users can copy it.
+ *
+ * @example
+ * const { data } = useGenerateText();
+ *
+ * {data && <ThemedMarkdown>{data.text}</ThemedMarkdown>}
+ */
+
+import { type ReactNode } from 'react';
+import { ScrollView, StyleSheet, Text, View, type StyleProp, type ViewStyle } from 'react-native';
+import * as Linking from 'expo-linking';
+
+import { Colors, Fonts } from '@/constants/theme';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import { useThemeColor } from '@/hooks/use-theme-color';
+
+export type ThemedMarkdownProps = {
+  /** The markdown to render */
+  children: string;
+  style?: StyleProp<ViewStyle>;
+  lightColor?: string;
+  darkColor?: string;
+};
+
+type Block =
+  | { type: 'heading'; level: number; text: string }
+  | { type: 'paragraph'; text: string }
+  | { type: 'quote'; text: string }
+  | { type: 'list'; items: { text: string; depth: number; marker: string }[] }
+  | { type: 'code'; code: string }
+  | { type: 'table'; header: string[]; rows: string[][] }
+  | { type: 'rule' };
+
+const FENCE_PATTERN = /^\s*(```|~~~)/;
+// A closing "#" sequence needs a space before it, so "# Learn C#" keeps its "#"
+const HEADING_PATTERN = /^\s{0,3}(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+const RULE_PATTERN = /^\s{0,3}([-*_])(\s*\1){2,}\s*$/;
+const QUOTE_PATTERN = /^\s{0,3}>\s?(.*)$/;
+const LIST_PATTERN = /^(\s*)([-*+]|\d{1,9}[.)])\s+(.*)$/;
+const TABLE_SEPARATOR_PATTERN = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+
+const SAFE_LINK_PATTERN = /^(https?:|mailto:|tel:)/i;
+
+// Code spans first so their contents are never formatted
+const INLINE_PATTERN =
+  /`([^`]+)`|\*\*(.+?)\*\*|__(.+?)__|~~(.+?)~~|\[([^\]]+)\]\(([^)\s]+)\)|\*([^*\s](?:[^*]*[^*\s])?)\*|\b_([^_\s](?:[^_]*[^_\s])?)_\b/g;
+
+function isTableStart(lines: string[], i: number): boolean {
+  return lines[i].includes('|') && i + 1 < lines.length && TABLE_SEPARATOR_PATTERN.test(lines[i + 1]);
+}
+
+function splitTableRow(line: string): string[] {
+  return line
+    .trim()
+    .replace(/^\|/, '')
+    .replace(/\|$/, '')
+    .split('|')
+    .map((cell) => cell.trim());
+}
+
+function startsBlock(lines: string[], i: number): boolean {
+  const line = lines[i];
+  return (
+    FENCE_PATTERN.test(line) ||
+    HEADING_PATTERN.test(line) ||
+    RULE_PATTERN.test(line) ||
+    QUOTE_PATTERN.test(line) ||
+    LIST_PATTERN.test(line) ||
+    isTableStart(lines, i)
+  );
+}
+
+/**
+ * Split markdown into blocks
+ *
+ * Unclosed code fences run to the end of the text, so a reply that is still
+ * being streamed renders sensibly.
+ */
+function parseBlocks(markdown: string): Block[] {
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: Block[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    const fence = line.match(FENCE_PATTERN);
+    if (fence) {
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trim().startsWith(fence[1])) {
+        code.push(lines[i]);
+        i++;
+      }
+      i++; // closing fence
+      blocks.push({ type: 'code', code: code.join('\n') });
+      continue;
+    }
+
+    const heading = line.match(HEADING_PATTERN);
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, text: heading[2] });
+      i++;
+      continue;
+    }
+
+    if (RULE_PATTERN.test(line)) {
+      blocks.push({ type: 'rule' });
+      i++;
+      continue;
+    }
+
+    if (isTableStart(lines, i)) {
+      const header = splitTableRow(line);
+      const rows: string[][] = [];
+      i += 2;
+      while (i < lines.length && lines[i].includes('|') && lines[i].trim()) {
+        rows.push(splitTableRow(lines[i]));
+        i++;
+      }
+      blocks.push({ type: 'table', header, rows });
+      continue;
+    }
+
+    if (QUOTE_PATTERN.test(line)) {
+      const quote: string[] = [];
+      let match: RegExpMatchArray | null;
+      while (i < lines.length && (match = lines[i].match(QUOTE_PATTERN))) {
+        quote.push(match[1]);
+        i++;
+      }
+      blocks.push({ type: 'quote', text: quote.join('\n') });
+      continue;
+    }
+
+    if (LIST_PATTERN.test(line)) {
+      const items: { text: string; depth: number; marker: string }[] = [];
+      while (i < lines.length && lines[i].trim()) {
+        const item = lines[i].match(LIST_PATTERN);
+        if (item) {
+          const depth = Math.floor(item[1].replace(/\t/g, '  ').length / 2);
+          items.push({ text: item[3], depth, marker: /\d/.test(item[2]) ? item[2] : '•' });
+        } else if (startsBlock(lines, i)) {
+          break;
+        } else {
+          // Continuation of the previous item
+          items[items.length - 1].text += `\n${lines[i].trim()}`;
+        }
+        i++;
+      }
+      blocks.push({ type: 'list', items });
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (i < lines.length && lines[i].trim() && (paragraph.length === 0 || !startsBlock(lines, i))) {
+      paragraph.push(lines[i].trim());
+      i++;
+    }
+    blocks.push({ type: 'paragraph', text: paragraph.join('\n') });
+  }
+
+  return blocks;
+}
+
+export function ThemedMarkdown({ children, style, lightColor, darkColor }: ThemedMarkdownProps) {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+  const color = useThemeColor({ light: lightColor, dark: darkColor }, 'text');
+
+  const renderInline = (text: string, keyPrefix = ''): ReactNode[] => {
+    const nodes: ReactNode[] = [];
+    let lastIndex = 0;
+
+    for (const match of text.matchAll(INLINE_PATTERN)) {
+      const index = match.index ?? 0;
+      if (index > lastIndex) {
+        nodes.push(text.slice(lastIndex, index));
+      }
+      const key = `${keyPrefix}${index}`;
+      const [raw, code, bold, boldAlt, strike, linkText, linkUrl, italic, italicAlt] = match;
+
+      if (code !== undefined) {
+        nodes.push(
+          <Text
+            key={key}
+            style={[styles.inlineCode, { backgroundColor: colors.tertiaryBackground }]}
+          >
+            {code}
+          </Text>
+        );
+      } else if (bold !== undefined || boldAlt !== undefined) {
+        nodes.push(
+          <Text key={key} style={styles.bold}>
+            {renderInline(bold ?? boldAlt, `${key}-`)}
+          </Text>
+        );
+      } else if (strike !== undefined) {
+        nodes.push(
+          <Text key={key} style={styles.strike}>
+            {renderInline(strike, `${key}-`)}
+          </Text>
+        );
+      } else if (linkText !== undefined) {
+        nodes.push(
+          SAFE_LINK_PATTERN.test(linkUrl) ? (
+            <Text
+              key={key}
+              style={{ color: colors.tint }}
+              onPress={() => {
+                Linking.openURL(linkUrl).catch((error) => {
+                  console.warn('[Appily] Failed to open link:', error);
+                });
+              }}
+            >
+              {renderInline(linkText, `${key}-`)}
+            </Text>
+          ) : (
+            raw
+          )
+        );
+      } else {
+        nodes.push(
+          <Text key={key} style={styles.italic}>
+            {renderInline(italic ?? italicAlt, `${key}-`)}
+          </Text>
+        );
+      }
+
+      lastIndex = index + raw.length;
+    }
+
+    if (lastIndex < text.length) {
+      nodes.push(text.slice(lastIndex));
+    }
+    return nodes;
+  };
+
+  const renderBlock = (block: Block, index: number): ReactNode => {
+    switch (block.type) {
+      case 'heading':
+        return (
+          <Text
+            key={index}
+            selectable
+            style={[styles.text, styles.heading, HEADING_STYLES[block.level - 1], { color }]}
+          >
+            {renderInline(block.text)}
+          </Text>
+        );
+
+      case 'paragraph':
+        return (
+          <Text key={index} selectable style={[styles.text, { color }]}>
+            {renderInline(block.text)}
+          </Text>
+        );
+
+      case 'quote':
+        return (
+          <View key={index} style={[styles.quote, { borderLeftColor: colors.border }]}>
+            <Text selectable style={[styles.text, { color: colors.secondaryText }]}>
+              {renderInline(block.text)}
+            </Text>
+          </View>
+        );
+
+      case 'list':
+        return (
+          <View key={index} style={styles.list}>
+            {block.items.map((item, i) => (
+              <View key={i} style={[styles.listItem, { paddingLeft: item.depth * 16 }]}>
+                <Text style={[styles.text, styles.listMarker, { color }]}>{item.marker}</Text>
+                <Text selectable style={[styles.text, styles.listText, { color }]}>
+                  {renderInline(item.text)}
+                </Text>
+              </View>
+            ))}
+          </View>
+        );
+
+      case 'code':
+        return (
+          <ScrollView
+            key={index}
+            horizontal
+            style={[styles.codeBlock, { backgroundColor: colors.tertiaryBackground }]}
+            contentContainerStyle={styles.codeContent}
+          >
+            <Text selectable style={[styles.code, { color }]}>
+              {block.code}
+            </Text>
+          </ScrollView>
+        );
+
+      case 'table':
+        return (
+          <ScrollView key={index} horizontal>
+            <View style={[styles.table, { borderColor: colors.border }]}>
+              {[block.header, ...block.rows].map((row, rowIndex) => (
+                <View
+                  key={rowIndex}
+                  style={[
+                    styles.tableRow,
+                    rowIndex > 0 && { borderTopColor: colors.border, borderTopWidth: 1 },
+                    rowIndex === 0 && { backgroundColor: colors.tertiaryBackground },
+                  ]}
+                >
+                  {block.header.map((_, cellIndex) => (
+                    <Text
+                      key={cellIndex}
+                      selectable
+                      style={[
+                        styles.text,
+                        styles.tableCell,
+                        rowIndex === 0 && styles.bold,
+                        { color },
+                      ]}
+                    >
+                      {renderInline(row[cellIndex] ?? '')}
+                    </Text>
+                  ))}
+                </View>
+              ))}
+            </View>
+          </ScrollView>
+        );
+
+      case 'rule':
+        return <View key={index} style={[styles.rule, { backgroundColor: colors.separator }]} />;
+    }
+  };
+
+  return (
+    <View style={[styles.container, style]}>
+      {parseBlocks(children).map(renderBlock)}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 10,
+  },
+  text: {
+    fontSize: 16,
+    lineHeight: 24,
+  },
+  heading: {
+    fontWeight: 'bold',
+  },
+  bold: {
+    fontWeight: '600',
+  },
+  italic: {
+    fontStyle: 'italic',
+  },
+  strike: {
+    textDecorationLine: 'line-through',
+  },
+  inlineCode: {
+    fontFamily: Fonts?.mono,
+    fontSize: 14,
+  },
+  quote: {
+    borderLeftWidth: 3,
+    paddingLeft: 12,
+  },
+  list: {
+    gap: 4,
+  },
+  listItem: {
+    flexDirection: 'row',
+  },
+  listMarker: {
+    minWidth: 22,
+  },
+  listText: {
+    flex: 1,
+  },
+  codeBlock: {
+    borderRadius: 8,
+  },
+  codeContent: {
+    padding: 12,
+  },
+  code: {
+    fontFamily: Fonts?.mono,
+    fontSize: 14,
+    lineHeight: 20,
+  },
+  table: {
+    borderWidth: 1,
+    borderRadius: 8,
+    overflow: 'hidden',
+  },
+  tableRow: {
+    flexDirection: 'row',
+  },
+  tableCell: {
+    width: 140,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+  },
+  rule: {
+    height: StyleSheet.hairlineWidth,
+  },
+});
+
+// Sizes for heading levels 1-6
+const HEADING_STYLES = [
+  { fontSize: 28, lineHeight: 34 },
+  { fontSize: 22, lineHeight: 28 },
+  { fontSize: 20, lineHeight: 26 },
+  { fontSize: 18, lineHeight: 24 },
+  { fontSize: 16, lineHeight: 24 },
+  { fontSize: 15, lineHeight: 22 },
+];
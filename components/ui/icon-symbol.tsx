@@ -18,6 +18,12 @@ const MAPPING = {
   'paperplane.fill': 'send',
   'chevron.left.forwardslash.chevron.right': 'code',
   'chevron.right': 'chevron-right',
+  'photo': 'photo',
+  'xmark.circle.fill': 'cancel',
+  'arrow.clockwise': 'refresh',
+  'list.bullet.rectangle': 'list-alt',
+  'square.and.arrow.up': 'ios-share',
+  'trash': 'delete',
 } as IconMapping;
 
 /**
@@ -0,0 +1,43 @@
+import { useEffect, useSyncExternalStore } from 'react';
+
+import { getAIQuota, isAIEnabled, refreshAIQuota, subscribeToAIQuota } from '@/lib/ai';
+
+/**
+ * Latest AI quota for this project, updated by every AI call
+ *
+ * Fetches from the usage API only when max/periodEnd aren't known yet or are
+ * stale, so it's cheap to use on every screen.
+ *
+ * @param lowThreshold - Fraction of `max` at or below which `isLow` is true (default: 0.1)
+ *
+ * @example
+ * const { remaining, max, isLow } = useAIQuota();
+ *
+ * {remaining !== null && (
+ *   <ThemedText style={isLow && { color: '#FF3B30' }}>{remaining}/{max} credits</ThemedText>
+ * )}
+ */
+export function useAIQuota(lowThreshold = 0.1) {
+  const quota = useSyncExternalStore(subscribeToAIQuota, getAIQuota);
+
+  useEffect(() => {
+    if (isAIEnabled()) {
+      refreshAIQuota().catch((error) => {
+        console.warn('[Appily] Failed to refresh AI quota:', error);
+      });
+    }
+  }, []);
+
+  const isLow =
+    quota.remaining !== null &&
+    (quota.remaining === 0 ||
+      (quota.max !== null && quota.remaining <= Math.ceil(quota.max * lowThreshold)));
+
+  return {
+    remaining: quota.remaining,
+    max: quota.max,
+    periodEnd: quota.periodEnd,
+    isLow,
+    refresh: () => refreshAIQuota(true),
+  };
+}
@@ -0,0 +1,16 @@
+import { useSyncExternalStore } from 'react';
+
+import { getAIRequestLog, subscribeToAIRequestLog } from '@/lib/ai';
+
+/**
+ * Recorded AI requests, newest first, updated as new requests finish
+ *
+ * Requests are only recorded while the log is enabled (see configureAIRequestLog).
+ *
+ * @example
+ * const entries = useAIRequestLog();
+ * const failed = entries.filter((entry) => !entry.success).length;
+ */
+export function useAIRequestLog() {
+  return useSyncExternalStore(subscribeToAIRequestLog, getAIRequestLog);
+}
@@ -0,0 +1,89 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+/**
+ * State and controls returned by the AI request hooks
+ */
+export interface AIRequestState<TArgs extends unknown[], TResult> {
+  /** Start the request (cancels one already in flight). Resolves to null on failure or cancel. */
+  run: (...args: TArgs) => Promise<TResult | null>;
+  /** Result of the last successful request */
+  data: TResult | null;
+  /** Error from the last failed request */
+  error: Error | null;
+  /** Whether a request is in flight */
+  isLoading: boolean;
+  /** Cancel the request in flight, if any */
+  cancel: () => void;
+  /** Cancel and clear data and error */
+  reset: () => void;
+}
+
+/**
+ * Track loading, error and result state for an AI request
+ *
+ * `request` receives an AbortSignal that fires on cancel, on a newer run and on
+ * unmount, so no state is updated after the screen goes away. Pass a function
+ * defined outside the component so it stays stable between renders.
+ *
+ * Quota reported by the response is picked up by lib/ai.ts, see useAIQuota.
+ */
+export function useAIRequest<TArgs extends unknown[], TResult>(
+  request: (signal: AbortSignal, ...args: TArgs) => Promise<TResult>
+): AIRequestState<TArgs, TResult> {
+  const [data, setData] = useState<TResult | null>(null);
+  const [error, setError] = useState<Error | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  // Abort on unmount; clearing the ref stops the pending run from touching state
+  useEffect(() => {
+    return () => {
+      controllerRef.current?.abort();
+      controllerRef.current = null;
+    };
+  }, []);
+
+  const run = useCallback(
+    async (...args: TArgs) => {
+      controllerRef.current?.abort();
+      const controller = new AbortController();
+      controllerRef.current = controller;
+
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const result = await request(controller.signal, ...args);
+        if (controllerRef.current === controller) {
+          setData(result);
+        }
+        return result;
+      } catch (e) {
+        if (controllerRef.current === controller) {
+          setError(e instanceof Error ? e : new Error(String(e)));
+        }
+        return null;
+      } finally {
+        if (controllerRef.current === controller) {
+          controllerRef.current = null;
+          setIsLoading(false);
+        }
+      }
+    },
+    [request]
+  );
+
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+    setIsLoading(false);
+  }, []);
+
+  const reset = useCallback(() => {
+    cancel();
+    setData(null);
+    setError(null);
+  }, [cancel]);
+
+  return { run, data, error, isLoading, cancel, reset };
+}
@@ -0,0 +1,35 @@
+import {
+  analyzeImage,
+  analyzeImageUrl,
+  type AnalyzeImageOptions,
+  type AnalyzeImageResult,
+} from '@/lib/ai';
+import { useAIRequest } from '@/hooks/use-ai-request';
+
+function requestAnalysis(
+  signal: AbortSignal,
+  image: string,
+  prompt: string,
+  options?: Omit<AnalyzeImageOptions, 'signal'>
+): Promise<AnalyzeImageResult> {
+  if (/^https?:\/\//.test(image)) {
+    return analyzeImageUrl(image, prompt, { ...options, signal });
+  }
+  return analyzeImage(image, prompt, { ...options, signal });
+}
+
+/**
+ * Analyze an image (base64 or http(s) URL) from a screen, with loading/error state
+ * and automatic cancel on unmount
+ *
+ * @example
+ * const { run, data, error, isLoading } = useAnalyzeImage();
+ *
+ * const picked = await ImagePicker.launchImageLibraryAsync({ base64: true });
+ * if (picked.assets?.[0]?.base64) {
+ *   run(picked.assets[0].base64, 'What breed is this dog?');
+ * }
+ */
+export function useAnalyzeImage() {
+  return useAIRequest(requestAnalysis);
+}
@@ -0,0 +1,23 @@
+import { generateImage, type GenerateImageResult, type ImageGenerationOptions } from '@/lib/ai';
+import { useAIRequest } from '@/hooks/use-ai-request';
+
+function requestImage(
+  signal: AbortSignal,
+  prompt: string,
+  options?: Omit<ImageGenerationOptions, 'signal'>
+): Promise<GenerateImageResult> {
+  return generateImage(prompt, { ...options, signal });
+}
+
+/**
+ * Generate an image from a screen, with loading/error state and automatic cancel on unmount
+ *
+ * @example
+ * const { run, data, isLoading, cancel } = useGenerateImage();
+ *
+ * <Button title="Generate" onPress={() => run('A cozy cabin in the snow', { aspectRatio: '16:9' })} />
+ * {data && <Image source={{ uri: data.imageBase64 }} style={{ width: 320, height: 180 }} />}
+ */
+export function useGenerateImage() {
+  return useAIRequest(requestImage);
+}
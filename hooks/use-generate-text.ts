@@ -0,0 +1,24 @@
+import { generateText, type GenerateTextResult, type TextGenerationOptions } from '@/lib/ai';
+import { useAIRequest } from '@/hooks/use-ai-request';
+
+function requestText(
+  signal: AbortSignal,
+  prompt: string,
+  systemPrompt?: string,
+  options?: Omit<TextGenerationOptions, 'signal'>
+): Promise<GenerateTextResult> {
+  return generateText(prompt, systemPrompt, { ...options, signal });
+}
+
+/**
+ * Generate text from a screen, with loading/error state and automatic cancel on unmount
+ *
+ * @example
+ * const { run, data, error, isLoading } = useGenerateText();
+ *
+ * <Button title="Write a poem" onPress={() => run('Write a haiku about spring')} />
+ * {data && <ThemedText>{data.text}</ThemedText>}
+ */
+export function useGenerateText() {
+  return useAIRequest(requestText);
+}
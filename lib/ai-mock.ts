@@ -0,0 +1,255 @@
+/**
+ * AI Mock Backend - Offline stand-in for the Appily AI API
+ *
+ * Answers every lib/ai.ts call locally so AI screens can be built and tested
+ * without network access or spending real quota. Responses are deterministic:
+ * the same prompt always gets the same text, analysis or placeholder image.
+ *
+ * Turn it on for the whole app in app.json:
+ *   "extra": { "appilyAIMock": true }
+ *
+ * Or for a single screen / test:
+ *   import { setAITransport } from '@/lib/ai';
+ *   import { createMockTransport } from '@/lib/ai-mock';
+ *
+ *   setAITransport(createMockTransport({ maxRequests: 3 }));
+ *
+ * Simulating errors: put `[mock-error:CODE]` anywhere in a prompt, e.g.
+ * `[mock-error:CONTENT_POLICY]`, to get that API error back.
+ */
+
+import type { AITransport, AITransportRequest, AITransportResponse, JSONSchema } from '@/lib/ai';
+import { hashString } from '@/lib/hash';
+
+/**
+ * Options for the mock backend
+ */
+export interface MockTransportOptions {
+  /** Requests available before QUOTA_EXCEEDED is returned (default: 50) */
+  maxRequests?: number;
+  /** Simulated network latency per request in ms (default: 300) */
+  latencyMs?: number;
+  /** Fail every request with this API error (e.g. { code: 'INTERNAL_ERROR', status: 500 }) */
+  failWith?: { code: string; message?: string; status?: number };
+}
+
+const CANNED_TEXT = [
+  'This is a mock response from the offline AI backend. Switch off appilyAIMock in app.json to get real answers.',
+  'Here are three ideas to get you started:\n\n1. Start small\n2. Iterate often\n3. Ask for feedback early',
+  'Great question! In short: it depends on the context, but the simplest option is usually the best place to begin.',
+  'Sure - here is a short answer generated locally so you can test your screen without using any AI credits.',
+];
+
+const CANNED_ANALYSIS = [
+  'The image shows a well-lit scene with a clear main subject in the center. (mock analysis)',
+  'I can see several objects arranged on a flat surface with natural light coming from the left. (mock analysis)',
+  'This looks like an outdoor photo with a blue sky and some greenery in the background. (mock analysis)',
+];
+
+// 1x1 PNG placeholders in the iOS system colors - they stretch to fill any Image
+const PLACEHOLDER_IMAGES = [
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAIAAACQd1PeAAAADElEQVR42mPgavkPAAIpAY5K+cSMAAAAAElFTkSuQmCC',
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAIAAACQd1PeAAAADElEQVR42mMwOR4JAAKHAVVX7nEiAAAAAElFTkSuQmCC',
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAIAAACQd1PeAAAADElEQVR42mP4P5UBAAQrAZWasdz4AAAAAElFTkSuQmCC',
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAIAAACQd1PeAAAADElEQVR42mNYH3QPAAOTAeBuS+IzAAAAAElFTkSuQmCC',
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAIAAACQd1PeAAAADElEQVR42mP4rxsKAAOwAYLoneMKAAAAAElFTkSuQmCC',
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAIAAACQd1PeAAAADElEQVR42mMw2HAcAAK7Aah+e2IYAAAAAElFTkSuQmCC',
+];
+
+const ERROR_STATUS: Record<string, number> = {
+  QUOTA_EXCEEDED: 429,
+  RATE_LIMITED: 429,
+  CONTENT_POLICY: 400,
+  INTERNAL_ERROR: 500,
+  SERVICE_UNAVAILABLE: 503,
+};
+
+/**
+ * Wait like a real network call would, rejecting if the request is aborted
+ */
+function delay(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const abortError = () => Object.assign(new Error('Aborted'), { name: 'AbortError' });
+    if (signal.aborted) {
+      reject(abortError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+function respond(status: number, body: unknown): AITransportResponse {
+  return { status, json: async () => body };
+}
+
+function respondError(code: string, message: string, status = ERROR_STATUS[code] ?? 400, periodEnd?: string) {
+  return respond(status, { success: false, error: { code, message, periodEnd } });
+}
+
+/**
+ * Find the text the request is about (single prompt or last chat message)
+ */
+function getPrompt(body: Record<string, unknown> | undefined): string {
+  if (typeof body?.prompt === 'string') {
+    return body.prompt;
+  }
+  const messages = body?.messages as { content: string }[] | undefined;
+  return messages?.[messages.length - 1]?.content || '';
+}
+
+/**
+ * Build a plausible value for a JSON Schema so generateObject works offline
+ */
+function sampleFromSchema(schema: JSONSchema, key = 'value'): unknown {
+  if (schema.enum?.length) {
+    return schema.enum[0];
+  }
+
+  switch (schema.type) {
+    case 'object':
+      return Object.fromEntries(
+        Object.entries(schema.properties || {}).map(([name, property]) => [
+          name,
+          sampleFromSchema(property, name),
+        ])
+      );
+    case 'array':
+      return Array.from({ length: Math.max(schema.minItems ?? 2, 1) }, (_, i) =>
+        schema.items ? sampleFromSchema(schema.items, `${key} ${i + 1}`) : null
+      );
+    case 'number':
+    case 'integer':
+      return schema.minimum ?? 1;
+    case 'boolean':
+      return true;
+    case 'null':
+      return null;
+    default:
+      return `Mock ${key}`;
+  }
+}
+
+/**
+ * Reply to a structured output request with JSON matching its schema, if it is one
+ */
+function getObjectReply(body: Record<string, unknown> | undefined): string | undefined {
+  const messages = body?.messages as { role: string; content: string }[] | undefined;
+  const system = messages?.find((message) => message.role === 'system')?.content;
+  const match = system?.match(/JSON Schema:\n(\{[\s\S]*\})/);
+  if (!match) {
+    return undefined;
+  }
+
+  try {
+    return JSON.stringify(sampleFromSchema(JSON.parse(match[1]) as JSONSchema));
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Stream text back word by word like the real backend does
+ */
+async function* streamWords(
+  text: string,
+  remainingRequests: number,
+  signal: AbortSignal
+): AsyncGenerator<string> {
+  for (const word of text.match(/\S+\s*/g) || []) {
+    await delay(30, signal);
+    yield JSON.stringify({ type: 'delta', text: word });
+  }
+  yield JSON.stringify({ type: 'done', remainingRequests });
+}
+
+/**
+ * Create a transport that answers AI requests locally
+ *
+ * Each mock keeps its own quota, counting down by one per successful request
+ * and returning QUOTA_EXCEEDED once it reaches zero.
+ */
+export function createMockTransport(options?: MockTransportOptions): AITransport {
+  const maxRequests = options?.maxRequests ?? 50;
+  const latencyMs = options?.latencyMs ?? 300;
+  const periodEnd = new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString();
+  let remainingRequests = maxRequests;
+
+  return {
+    async send(request: AITransportRequest): Promise<AITransportResponse> {
+      await delay(latencyMs, request.signal);
+
+      const path = request.path.split('?')[0];
+
+      if (path === '/api/ai/usage') {
+        return respond(200, {
+          success: true,
+          data: { remainingRequests, maxRequests, periodEnd },
+        });
+      }
+
+      const prompt = getPrompt(request.body);
+
+      if (options?.failWith) {
+        const { code, message, status } = options.failWith;
+        return respondError(code, message || `Mock ${code} error`, status);
+      }
+
+      const forcedError = prompt.match(/\[mock-error:([A-Z_]+)\]/);
+      if (forcedError) {
+        return respondError(forcedError[1], `Mock ${forcedError[1]} error`, undefined, periodEnd);
+      }
+
+      if (remainingRequests <= 0) {
+        return respondError('QUOTA_EXCEEDED', 'AI request limit reached for this period', 429, periodEnd);
+      }
+
+      const seed = hashString(prompt);
+
+      switch (path) {
+        case '/api/ai/generate': {
+          remainingRequests--;
+          const text =
+            getObjectReply(request.body) ?? CANNED_TEXT[seed % CANNED_TEXT.length];
+
+          if (request.stream) {
+            return {
+              status: 200,
+              json: async () => ({ success: true, data: { text, remainingRequests } }),
+              events: streamWords(text, remainingRequests, request.signal),
+            };
+          }
+          return respond(200, { success: true, data: { text, remainingRequests } });
+        }
+
+        case '/api/ai/vision':
+          remainingRequests--;
+          return respond(200, {
+            success: true,
+            data: { analysis: CANNED_ANALYSIS[seed % CANNED_ANALYSIS.length], remainingRequests },
+          });
+
+        case '/api/ai/generate-image':
+          remainingRequests--;
+          return respond(200, {
+            success: true,
+            data: {
+              imageBase64: PLACEHOLDER_IMAGES[seed % PLACEHOLDER_IMAGES.length],
+              mimeType: 'image/png',
+              remainingRequests,
+            },
+          });
+
+        default:
+          return respondError('NOT_FOUND', `Mock backend has no route for ${path}`, 404);
+      }
+    },
+  };
+}
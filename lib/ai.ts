@@ -2,32 +2,102 @@
  * AI Helper - Text Generation, Image Analysis, and Image Generation for Appily Apps
  *
  * This module provides easy-to-use functions for AI features:
- * - Text generation powered by GPT-5 mini
+ * - Text generation, multi-turn chat and tool calling powered by GPT-5 mini
  * - Image analysis powered by GPT-5 mini
  * - Image generation/editing powered by Gemini (Nano Banana Pro)
  *
  * Configuration is automatically loaded from app.json's extra field.
  *
  * Usage:
- *   import { generateText, analyzeImage, generateImage, editImage, checkAIQuota } from '@/lib/ai';
+ *   import {
+ *     generateText, streamText, chat, streamChat, generateObject, runWithTools,
+ *     analyzeImage, analyzeImages, generateImage, generateImages, editImage,
+ *     saveGeneratedImage, listSavedImages, checkAIQuota, getAIQuota,
+ *   } from '@/lib/ai';
  *
  *   // Generate text
  *   const poem = await generateText('Write a poem about the ocean');
  *
+ *   // Stream text as it is generated
+ *   const story = await streamText('Tell me a story', (delta, text) => setStory(text));
+ *
+ *   // Continue a conversation
+ *   const reply = await chat([{ role: 'user', content: 'Hi!' }]);
+ *
+ *   // ...and show the reply while it is being written
+ *   const streamed = await streamChat(messages, (delta, text) => setReply(text));
+ *
+ *   // Generate typed JSON that matches a schema
+ *   const { object } = await generateObject<Quiz>('A 3 question quiz', quizSchema);
+ *
+ *   // Let the AI call functions in your app (see defineTool)
+ *   const answer = await runWithTools(messages, [addTodoTool]);
+ *
  *   // Analyze an image
  *   const result = await analyzeImage(base64Image, 'What breed is this dog?');
  *
+ *   // Compare several images
+ *   const comparison = await analyzeImages([photoA, photoB], 'What changed?');
+ *
  *   // Generate an image from text
  *   const image = await generateImage('A sunset over mountains');
  *
+ *   // Generate several variations at once
+ *   const { images } = await generateImages('A sticker of a happy cat', { count: 4 });
+ *
  *   // Edit an existing image
  *   const edited = await editImage(photoBase64, 'Add a rainbow in the sky');
  *
+ *   // Save a generated image to the device and list the gallery later
+ *   const saved = await saveGeneratedImage(image, { prompt: 'A sunset over mountains' });
+ *   const gallery = await listSavedImages();
+ *
  *   // Check remaining quota
  *   const quota = await checkAIQuota();
+ *
+ *   // Read the latest quota reported by any AI call (no request)
+ *   const { remaining } = getAIQuota();
+ *
+ * Every function throws an AIError subclass on failure (AIQuotaExceededError,
+ * AIContentPolicyError, AINetworkError, ...) carrying the API error code,
+ * HTTP status and whether the request is worth retrying.
+ *
+ * Text and vision functions accept model parameters (maxTokens, temperature,
+ * stopSequences, language); set app-wide defaults with `"appilyAIDefaults"`
+ * in app.json's extra field.
+ *
+ * Every function also accepts an options object with an AbortSignal, a
+ * timeout and a retry count. Retryable failures are retried automatically:
+ *
+ *   const controller = new AbortController();
+ *   const image = await generateImage('A castle', { signal: controller.signal, timeoutMs: 90_000 });
+ *
+ * Pass `cacheTtlMs` to reuse identical responses instead of spending quota
+ * again (see configureAICache for persisting them across launches).
+ *
+ * Keep prompts as named, versioned templates with sanitized user input in
+ * lib/prompt-templates.ts instead of building them with string literals.
+ *
+ * Set `"appilyAILog": true` in app.json's extra field (or call
+ * configureAIRequestLog) to keep an on-device log of every request - see the
+ * AI Requests debug screen under Settings.
+ *
+ * Set `"appilyAIMock": true` in app.json's extra field to answer every call
+ * from the offline mock backend in lib/ai-mock.ts (no network, no quota used).
+ *
+ * In components, prefer the hooks (useGenerateText, useGenerateImage,
+ * useAnalyzeImage in hooks/) which track loading/error state and cancel on unmount,
+ * and useAIQuota for a credits badge.
  */
 
 import Constants from 'expo-constants';
+import { fetch as streamingFetch } from 'expo/fetch';
+import { Directory, File, Paths } from 'expo-file-system';
+import { ImageManipulator, SaveFormat } from 'expo-image-manipulator';
+
+import { createMockTransport } from '@/lib/ai-mock';
+import { addBreadcrumb } from '@/lib/error-reporter';
+import { hashString } from '@/lib/hash';
 
 /**
  * Configuration loaded from app.json extra field
@@ -36,6 +106,12 @@ import Constants from 'expo-constants';
 const CONFIG = {
   projectId: (Constants.expoConfig?.extra?.appilyProjectId as string) || '',
   apiUrl: (Constants.expoConfig?.extra?.appilyApiUrl as string) || 'https://www.appily.dev',
+  /** Answer every AI call from the offline mock backend instead of the Appily API */
+  useMock: Constants.expoConfig?.extra?.appilyAIMock === true,
+  /** Keep an on-device log of AI requests (see configureAIRequestLog) */
+  logRequests: Constants.expoConfig?.extra?.appilyAILog === true,
+  /** App-wide defaults for maxTokens, temperature, stopSequences and language */
+  modelDefaults: (Constants.expoConfig?.extra?.appilyAIDefaults as ModelOptions | undefined) || {},
 };
 
 /**
@@ -48,6 +124,22 @@ export interface GenerateTextResult {
   remainingRequests: number;
 }
 
+/**
+ * Callback invoked for every chunk of streamed text
+ *
+ * @param delta - The newly received piece of text
+ * @param text - All text received so far
+ */
+export type TextStreamCallback = (delta: string, text: string) => void;
+
+/**
+ * Event sent by the text generation API when streaming
+ */
+type TextStreamEvent =
+  | { type: 'delta'; text: string }
+  | { type: 'done'; remainingRequests: number }
+  | { type: 'error'; error: APIErrorBody };
+
 /**
  * Response from the image analysis API
  */
@@ -56,6 +148,16 @@ export interface AnalyzeImageResult {
   analysis: string;
   /** Number of AI requests remaining this period */
   remainingRequests: number;
+  /** Size of the uploaded image before and after compression (base64 input only) */
+  upload?: ImageUploadInfo;
+}
+
+/**
+ * Options for image analysis
+ */
+export interface AnalyzeImageOptions extends AIRequestOptions, ModelOptions {
+  /** How to shrink the image before upload, or false to send it untouched (default: 1536px, 0.8 quality) */
+  compression?: ImageCompressionOptions | false;
 }
 
 /**
@@ -76,354 +178,2891 @@ export interface AIQuotaResult {
 interface APIResponse<T> {
   success: boolean;
   data?: T;
-  error?: {
-    code: string;
-    message: string;
-  };
+  error?: APIErrorBody;
+}
+
+/**
+ * Error details returned by the API when a request fails
+ */
+interface APIErrorBody {
+  code: string;
+  message: string;
+  /** When the quota resets (ISO date string), sent with quota errors */
+  periodEnd?: string;
 }
 
 /**
- * Check if AI features are available (project ID is configured)
+ * Check if AI features are available (project ID is configured, or the mock backend is on)
  */
 export function isAIEnabled(): boolean {
-  return Boolean(CONFIG.projectId);
+  return Boolean(CONFIG.projectId) || CONFIG.useMock;
 }
 
+// ============================================================================
+// ERRORS
+// ============================================================================
+
 /**
- * Generate text using AI (GPT-5 mini)
- *
- * @param prompt - What you want the AI to generate
- * @param systemPrompt - Optional context/instructions for the AI
- * @returns The generated text and remaining quota
- *
- * @example
- * // Generate a poem
- * const result = await generateText('Write a haiku about spring');
- * console.log(result.text);
+ * Base class for every error thrown by the AI functions
  *
  * @example
- * // Generate with custom personality
- * const result = await generateText(
- *   'Tell me a joke',
- *   'You are a comedian who loves puns'
- * );
+ * try {
+ *   await generateText('Write a poem');
+ * } catch (error) {
+ *   if (error instanceof AIQuotaExceededError) {
+ *     Alert.alert('Out of AI credits', `Resets ${new Date(error.periodEnd!).toLocaleDateString()}`);
+ *   } else if (error instanceof AIError && error.retryable) {
+ *     // Safe to try again later
+ *   }
+ * }
  */
-export async function generateText(
-  prompt: string,
-  systemPrompt?: string
-): Promise<GenerateTextResult> {
-  if (!CONFIG.projectId) {
-    throw new Error('AI not configured - project ID missing');
+export class AIError extends Error {
+  /** Error code from the API (e.g. 'QUOTA_EXCEEDED') or from the client (e.g. 'NETWORK_ERROR') */
+  readonly code: string;
+  /** HTTP status of the response, if one was received */
+  readonly status?: number;
+  /** Whether repeating the same request might succeed */
+  readonly retryable: boolean;
+
+  constructor(message: string, options: { code: string; status?: number; retryable?: boolean }) {
+    super(message);
+    this.name = 'AIError';
+    this.code = options.code;
+    this.status = options.status;
+    this.retryable = options.retryable ?? false;
   }
+}
 
-  const response = await fetch(`${CONFIG.apiUrl}/api/ai/generate`, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({
-      projectId: CONFIG.projectId,
-      prompt,
-      systemPrompt,
-      maxTokens: 1024,
-      temperature: 0.7,
-    }),
-  });
+/**
+ * AI features are not set up for this app (project ID missing in app.json)
+ */
+export class AINotConfiguredError extends AIError {
+  constructor() {
+    super('AI not configured - project ID missing', { code: 'NOT_CONFIGURED' });
+    this.name = 'AINotConfiguredError';
+  }
+}
 
-  const data: APIResponse<{ text: string; remainingRequests: number }> = await response.json();
+/**
+ * The project has used all of its AI requests for this period
+ */
+export class AIQuotaExceededError extends AIError {
+  /** When the quota resets (ISO date string), if the API reported it */
+  readonly periodEnd?: string;
 
-  if (!data.success || !data.data) {
-    throw new Error(data.error?.message || 'AI text generation failed');
+  constructor(message: string, options: { code: string; status?: number; periodEnd?: string }) {
+    super(message, { code: options.code, status: options.status });
+    this.name = 'AIQuotaExceededError';
+    this.periodEnd = options.periodEnd;
   }
-
-  return {
-    text: data.data.text,
-    remainingRequests: data.data.remainingRequests,
-  };
 }
 
 /**
- * Analyze an image using AI vision (GPT-5 mini)
- *
- * @param imageBase64 - Base64 encoded image data (with or without data: prefix)
- * @param prompt - What to analyze about the image
- * @returns The analysis result and remaining quota
- *
- * @example
- * // Identify a dog breed
- * const result = await analyzeImage(photoBase64, 'What breed is this dog?');
- * console.log(result.analysis);
- *
- * @example
- * // Describe image contents
- * const result = await analyzeImage(imageBase64, 'Describe what you see');
+ * The prompt or image was rejected by the content policy
  */
-export async function analyzeImage(
-  imageBase64: string,
-  prompt: string
-): Promise<AnalyzeImageResult> {
-  if (!CONFIG.projectId) {
-    throw new Error('AI not configured - project ID missing');
+export class AIContentPolicyError extends AIError {
+  constructor(message: string, options: { code: string; status?: number }) {
+    super(message, { code: options.code, status: options.status });
+    this.name = 'AIContentPolicyError';
   }
+}
 
-  // Remove data: prefix if present (the API handles both formats)
-  const cleanBase64 = imageBase64.includes(',')
-    ? imageBase64.split(',')[1]
-    : imageBase64;
-
-  const response = await fetch(`${CONFIG.apiUrl}/api/ai/vision`, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({
-      projectId: CONFIG.projectId,
-      imageBase64: cleanBase64,
-      prompt,
-      maxTokens: 1024,
-    }),
-  });
+/**
+ * The request never got a response (offline, DNS failure, connection dropped)
+ */
+export class AINetworkError extends AIError {
+  constructor(message = 'Network request to AI service failed', cause?: unknown) {
+    super(message, { code: 'NETWORK_ERROR', retryable: true });
+    this.name = 'AINetworkError';
+    this.cause = cause;
+  }
+}
 
-  const data: APIResponse<{ analysis: string; remainingRequests: number }> = await response.json();
+/**
+ * The API answered with something that isn't a valid API response
+ */
+export class AIInvalidResponseError extends AIError {
+  constructor(status?: number) {
+    super('AI service returned an invalid response', {
+      code: 'INVALID_RESPONSE',
+      status,
+      // A gateway error page is worth retrying, a malformed success is not
+      retryable: status !== undefined && status >= 500,
+    });
+    this.name = 'AIInvalidResponseError';
+  }
+}
 
-  if (!data.success || !data.data) {
-    throw new Error(data.error?.message || 'AI image analysis failed');
+/**
+ * The request took longer than its timeout
+ */
+export class AITimeoutError extends AIError {
+  constructor(timeoutMs: number) {
+    super(`AI request timed out after ${timeoutMs}ms`, { code: 'TIMEOUT', retryable: true });
+    this.name = 'AITimeoutError';
   }
+}
 
-  return {
-    analysis: data.data.analysis,
-    remainingRequests: data.data.remainingRequests,
-  };
+/**
+ * The request was cancelled through its AbortSignal
+ */
+export class AIAbortedError extends AIError {
+  constructor() {
+    super('AI request was cancelled', { code: 'ABORTED' });
+    this.name = 'AIAbortedError';
+  }
 }
 
 /**
- * Analyze an image from URL using AI vision (GPT-5 mini)
- *
- * @param imageUrl - URL of the image to analyze
- * @param prompt - What to analyze about the image
- * @returns The analysis result and remaining quota
- *
- * @example
- * const result = await analyzeImageUrl(
- *   'https://example.com/dog.jpg',
- *   'What breed is this dog?'
- * );
+ * The function was called with arguments it can't work with (e.g. no messages)
  */
-export async function analyzeImageUrl(
-  imageUrl: string,
-  prompt: string
-): Promise<AnalyzeImageResult> {
-  if (!CONFIG.projectId) {
-    throw new Error('AI not configured - project ID missing');
+export class AIInvalidArgumentError extends AIError {
+  constructor(message: string) {
+    super(message, { code: 'INVALID_ARGUMENT' });
+    this.name = 'AIInvalidArgumentError';
   }
+}
 
-  const response = await fetch(`${CONFIG.apiUrl}/api/ai/vision`, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({
-      projectId: CONFIG.projectId,
-      imageUrl,
-      prompt,
-    }),
-  });
+const QUOTA_ERROR_CODES = ['QUOTA_EXCEEDED', 'LIMIT_REACHED'];
+const CONTENT_POLICY_ERROR_CODES = ['CONTENT_POLICY', 'CONTENT_FILTERED', 'SAFETY_BLOCKED'];
+const RETRYABLE_STATUS_CODES = [408, 429, 500, 502, 503, 504];
 
-  const data: APIResponse<{ analysis: string; remainingRequests: number }> = await response.json();
+/**
+ * Turn an API error response into the matching AIError subclass
+ */
+function createAIError(error: APIErrorBody | undefined, status: number | undefined, fallbackMessage: string): AIError {
+  const code = error?.code || 'UNKNOWN';
+  const message = error?.message || fallbackMessage;
 
-  if (!data.success || !data.data) {
-    throw new Error(data.error?.message || 'AI image analysis failed');
+  if (QUOTA_ERROR_CODES.includes(code)) {
+    return new AIQuotaExceededError(message, { code, status, periodEnd: error?.periodEnd });
+  }
+  if (CONTENT_POLICY_ERROR_CODES.includes(code)) {
+    return new AIContentPolicyError(message, { code, status });
   }
 
-  return {
-    analysis: data.data.analysis,
-    remainingRequests: data.data.remainingRequests,
-  };
+  return new AIError(message, {
+    code,
+    status,
+    retryable: status !== undefined && RETRYABLE_STATUS_CODES.includes(status),
+  });
 }
 
 /**
- * Check remaining AI quota for this project
- *
- * @returns Current quota status
- *
- * @example
- * const quota = await checkAIQuota();
- * console.log(`${quota.remaining}/${quota.max} requests remaining`);
- * console.log(`Resets on: ${new Date(quota.periodEnd).toLocaleDateString()}`);
+ * Unwrap an API response, throwing the matching AIError if it failed
  */
-export async function checkAIQuota(): Promise<AIQuotaResult> {
-  if (!CONFIG.projectId) {
-    throw new Error('AI not configured - project ID missing');
+async function parseAPIResponse<T>(
+  response: { status: number; json(): Promise<unknown> },
+  failureMessage: string
+): Promise<T> {
+  let data: APIResponse<T>;
+  try {
+    data = (await response.json()) as APIResponse<T>;
+  } catch {
+    throw new AIInvalidResponseError(response.status);
   }
 
-  const response = await fetch(
-    `${CONFIG.apiUrl}/api/ai/usage?projectId=${CONFIG.projectId}`
-  );
-
-  const data: APIResponse<{
-    remainingRequests: number;
-    maxRequests: number;
-    periodEnd: string;
-  }> = await response.json();
-
-  if (!data.success || !data.data) {
-    throw new Error(data.error?.message || 'Failed to check AI quota');
+  if (!data?.success || !data.data) {
+    throw createAIError(data?.error, response.status, failureMessage);
   }
 
-  return {
-    remaining: data.data.remainingRequests,
-    max: data.data.maxRequests,
-    periodEnd: data.data.periodEnd,
-  };
+  return data.data;
 }
 
 // ============================================================================
-// IMAGE GENERATION (Gemini - Nano Banana Pro)
+// TRANSPORT
 // ============================================================================
 
 /**
- * Supported aspect ratios for image generation
+ * A request to the AI API, as handed to the transport
  */
-export type ImageAspectRatio = '1:1' | '16:9' | '9:16' | '4:3' | '3:4' | '3:2' | '2:3';
+export interface AITransportRequest {
+  method: 'GET' | 'POST';
+  /** API path including any query string, e.g. '/api/ai/generate' */
+  path: string;
+  /** JSON body for POST requests (already includes the project ID) */
+  body?: Record<string, unknown>;
+  /** Ask for a server-sent events stream instead of a single JSON response */
+  stream?: boolean;
+  /** Fires when the request is cancelled or times out */
+  signal: AbortSignal;
+}
 
 /**
- * Supported image resolutions
+ * A response from the AI API, as returned by the transport
  */
-export type ImageResolution = '1K' | '2K';
+export interface AITransportResponse {
+  /** HTTP status code */
+  status: number;
+  /** Parse the body as JSON (rejects if it isn't JSON) */
+  json(): Promise<unknown>;
+  /** The `data:` payloads of a server-sent events response, if the body is a stream */
+  events?: AsyncIterable<string>;
+}
 
 /**
- * Options for image generation
+ * Sends AI requests somewhere and returns the responses
+ *
+ * Every AI function goes through the active transport, so swapping it lets
+ * screens run against a mock backend (see lib/ai-mock.ts) or a custom server.
  */
-export interface ImageGenerationOptions {
-  /** Aspect ratio of the generated image (default: '1:1') */
-  aspectRatio?: ImageAspectRatio;
-  /** Resolution: '1K' (faster) or '2K' (higher quality) (default: '1K') */
-  resolution?: ImageResolution;
+export interface AITransport {
+  send(request: AITransportRequest): Promise<AITransportResponse>;
 }
 
 /**
- * Response from image generation API
+ * Read the `data:` payloads from a server-sent events stream
  */
-export interface GenerateImageResult {
-  /** Full data URL for the generated image (data:image/png;base64,...) */
-  imageBase64: string;
-  /** Number of AI requests remaining this period */
-  remainingRequests: number;
+async function* readServerSentEvents(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let data: string[] = [];
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+      // An empty line terminates an event; keep any partial line for the next chunk
+      const lines = buffer.split(/\r?\n/);
+      buffer = done ? '' : lines.pop() || '';
+
+      for (const line of lines) {
+        if (line.startsWith('data:')) {
+          data.push(line.slice(5).trimStart());
+        } else if (line === '' && data.length > 0) {
+          yield data.join('\n');
+          data = [];
+        }
+      }
+
+      if (done) {
+        if (data.length > 0) {
+          yield data.join('\n');
+        }
+        return;
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
 }
 
 /**
- * Generate an image from a text prompt using AI (Gemini - Nano Banana Pro)
- *
- * @param prompt - Text description of the image to generate
- * @param options - Optional settings for aspect ratio and resolution
- * @returns The generated image as a data URL and remaining quota
+ * Default transport that talks to the Appily backend over HTTP
+ */
+export const fetchTransport: AITransport = {
+  async send(request) {
+    const url = `${CONFIG.apiUrl}${request.path}`;
+    const init = {
+      method: request.method,
+      headers: request.body ? { 'Content-Type': 'application/json' } : undefined,
+      body: request.body ? JSON.stringify(request.body) : undefined,
+      signal: request.signal,
+    };
+
+    if (!request.stream) {
+      const response = await fetch(url, init);
+      return { status: response.status, json: () => response.json() };
+    }
+
+    // expo/fetch exposes the response body as a stream (React Native's fetch does not)
+    const response = await streamingFetch(url, {
+      ...init,
+      headers: { ...init.headers, Accept: 'text/event-stream' },
+    });
+
+    // Errors raised before the first token come back as a regular JSON response
+    const contentType = response.headers.get('content-type') || '';
+    return {
+      status: response.status,
+      json: () => response.json(),
+      events:
+        contentType.includes('text/event-stream') && response.body
+          ? readServerSentEvents(response.body)
+          : undefined,
+    };
+  },
+};
+
+let transport: AITransport = CONFIG.useMock ? createMockTransport() : fetchTransport;
+
+/**
+ * Route every AI request through a different transport
  *
  * @example
- * // Generate a simple image
- * const result = await generateImage('A cute robot playing guitar on a beach');
- * // Use result.imageBase64 directly in an Image component
+ * // Use the mock backend in a single screen or a test
+ * setAITransport(createMockTransport({ maxRequests: 3 }));
  *
- * @example
- * // Generate with custom options
- * const result = await generateImage(
- *   'A mountain landscape at sunset',
- *   { aspectRatio: '16:9', resolution: '2K' }
- * );
+ * // Back to the real backend
+ * setAITransport(fetchTransport);
  */
-export async function generateImage(
-  prompt: string,
-  options?: ImageGenerationOptions
-): Promise<GenerateImageResult> {
-  if (!CONFIG.projectId) {
-    throw new Error('AI not configured - project ID missing');
+export function setAITransport(next: AITransport): void {
+  transport = next;
+}
+
+/**
+ * Send a request through the active transport, reporting failures to connect as AINetworkError
+ */
+async function sendRequest(request: AITransportRequest): Promise<AITransportResponse> {
+  try {
+    return await transport.send(request);
+  } catch (e) {
+    throw e instanceof AIError ? e : new AINetworkError(undefined, e);
   }
+}
 
-  const response = await fetch(`${CONFIG.apiUrl}/api/ai/generate-image`, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({
-      projectId: CONFIG.projectId,
-      prompt,
-      aspectRatio: options?.aspectRatio || '1:1',
-      resolution: options?.resolution || '1K',
-    }),
-  });
+// ============================================================================
+// REQUESTS
+// ============================================================================
 
-  const data: APIResponse<{
-    imageBase64: string;
-    mimeType: string;
-    remainingRequests: number;
-  }> = await response.json();
+/**
+ * Options accepted by every AI function to control how the request is sent
+ */
+export interface AIRequestOptions {
+  /** Cancel the request, e.g. when the user leaves the screen */
+  signal?: AbortSignal;
+  /**
+   * Give up on an attempt after this many milliseconds (default: 60000, 120000 for images).
+   * For streamText and streamChat this is the longest wait for the next chunk, not for the whole answer.
+   */
+  timeoutMs?: number;
+  /** How many times to retry failures that are worth retrying (default: 2) */
+  retries?: number;
+  /**
+   * Reuse the response of an identical request for this many milliseconds
+   * instead of spending quota again (default: no caching; ignored by streamText and streamChat)
+   */
+  cacheTtlMs?: number;
+}
 
-  if (!data.success || !data.data) {
-    throw new Error(data.error?.message || 'AI image generation failed');
-  }
+/**
+ * Model parameters for text and vision requests
+ *
+ * Anything left out falls back to the `appilyAIDefaults` object in app.json's
+ * extra field, then to the built-in defaults:
+ *   "extra": { "appilyAIDefaults": { "maxTokens": 2048, "language": "French" } }
+ */
+export interface ModelOptions {
+  /** Maximum length of the reply in tokens (default: 1024) */
+  maxTokens?: number;
+  /** 0 for focused, repeatable answers, higher for more creative ones (default: 0.7) */
+  temperature?: number;
+  /** Stop writing as soon as the AI produces any of these strings */
+  stopSequences?: string[];
+  /** Language the AI should answer in, e.g. 'Spanish' (default: the language of the prompt) */
+  language?: string;
+}
 
-  // Return as full data URL for easy use in Image components
+/**
+ * Options for text generation
+ */
+export interface TextGenerationOptions extends AIRequestOptions, ModelOptions {}
+
+const DEFAULT_MAX_TOKENS = 1024;
+const DEFAULT_TEMPERATURE = 0.7;
+
+/**
+ * Resolve the model parameters sent with a request, applying app-wide defaults
+ */
+function getModelParams(options?: ModelOptions) {
+  const defaults = CONFIG.modelDefaults;
   return {
-    imageBase64: `data:${data.data.mimeType};base64,${data.data.imageBase64}`,
-    remainingRequests: data.data.remainingRequests,
+    maxTokens: options?.maxTokens ?? defaults.maxTokens ?? DEFAULT_MAX_TOKENS,
+    temperature: options?.temperature ?? defaults.temperature ?? DEFAULT_TEMPERATURE,
+    stopSequences: options?.stopSequences ?? defaults.stopSequences,
   };
 }
 
 /**
- * Edit an existing image using AI (Gemini - Nano Banana Pro)
- *
- * This function allows you to modify photos with text instructions.
- * Great for adding effects, changing backgrounds, adding objects, etc.
- *
- * @param imageBase64 - Base64-encoded source image (with or without data: prefix)
- * @param prompt - Text description of the edits to make
- * @param options - Optional settings for aspect ratio and resolution
- * @returns The edited image as a data URL and remaining quota
+ * Append the response language instruction (if any) to a prompt
+ */
+function withLanguage(text: string, options?: ModelOptions): string {
+  const language = options?.language ?? CONFIG.modelDefaults.language;
+  if (!language) {
+    return text;
+  }
+  return [text, `Always respond in ${language}.`].filter(Boolean).join('\n\n');
+}
+
+const DEFAULT_TIMEOUT_MS = 60_000;
+const DEFAULT_IMAGE_TIMEOUT_MS = 120_000;
+const DEFAULT_RETRIES = 2;
+const RETRY_BASE_DELAY_MS = 500;
+const RETRY_MAX_DELAY_MS = 8_000;
+
+/**
+ * Wait before the next retry, stopping early if the request is cancelled
+ */
+function waitForRetry(attempt: number, signal?: AbortSignal): Promise<void> {
+  // Exponential backoff with jitter so many clients don't retry in lockstep
+  const delay = Math.min(RETRY_BASE_DELAY_MS * 2 ** attempt, RETRY_MAX_DELAY_MS) * (0.5 + Math.random() / 2);
+
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new AIAbortedError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, delay);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Run a request with timeout, cancellation and retries
  *
- * @example
- * // Pick a photo and add something to it
- * import * as ImagePicker from 'expo-image-picker';
+ * Each attempt gets its own AbortSignal that fires when the caller's signal
+ * aborts or the timeout elapses. Streaming attempts call `keepAlive` whenever
+ * data arrives, which restarts the timeout so it only limits how long the
+ * stream may stay silent, not its total length. Failures are retried with exponential
+ * backoff only when the error is marked retryable and `canRetry` allows it.
+ * Every response passes through here, so it also keeps the quota store current.
+ */
+async function withRetry<T>(
+  options: AIRequestOptions | undefined,
+  defaultTimeoutMs: number,
+  attempt: (signal: AbortSignal, keepAlive: () => void) => Promise<T>,
+  canRetry: () => boolean = () => true
+): Promise<T> {
+  const timeoutMs = options?.timeoutMs ?? defaultTimeoutMs;
+  const retries = options?.retries ?? DEFAULT_RETRIES;
+
+  for (let attemptNumber = 0; ; attemptNumber++) {
+    if (options?.signal?.aborted) {
+      throw new AIAbortedError();
+    }
+
+    const controller = new AbortController();
+    const onAbort = () => controller.abort();
+    options?.signal?.addEventListener('abort', onAbort, { once: true });
+
+    let timedOut = false;
+    const onTimeout = () => {
+      timedOut = true;
+      controller.abort();
+    };
+    let timer = setTimeout(onTimeout, timeoutMs);
+    const keepAlive = () => {
+      if (timedOut) return;
+      clearTimeout(timer);
+      timer = setTimeout(onTimeout, timeoutMs);
+    };
+
+    try {
+      const result = await attempt(controller.signal, keepAlive);
+      updateQuotaFromResult(result);
+      return result;
+    } catch (e) {
+      // An aborted fetch rejects with a generic AbortError - report why it was aborted
+      let error: AIError;
+      if (options?.signal?.aborted) {
+        error = new AIAbortedError();
+      } else if (timedOut) {
+        error = new AITimeoutError(timeoutMs);
+      } else {
+        error = e instanceof AIError ? e : new AINetworkError(undefined, e);
+      }
+
+      if (error instanceof AIQuotaExceededError) {
+        setQuotaState({ remaining: 0, periodEnd: error.periodEnd ?? quotaState.periodEnd });
+      }
+
+      if (!error.retryable || attemptNumber >= retries || !canRetry()) {
+        throw error;
+      }
+    } finally {
+      clearTimeout(timer);
+      options?.signal?.removeEventListener('abort', onAbort);
+    }
+
+    await waitForRetry(attemptNumber, options?.signal);
+  }
+}
+
+/**
+ * Send a request to the Appily AI API and return the unwrapped data
  *
- * const picked = await ImagePicker.launchImageLibraryAsync({ base64: true });
- * if (picked.assets?.[0]?.base64) {
- *   const result = await editImage(
- *     picked.assets[0].base64,
- *     'Add a colorful parrot on my shoulder'
- *   );
- *   // result.imageBase64 contains the edited image
- * }
+ * POSTs `body` (with the project ID added) when given, otherwise sends a GET
+ * with the project ID as a query parameter. Timeouts, cancellation and
+ * retries are handled here so every AI function behaves the same way.
+ */
+async function requestAI<T>(
+  path: string,
+  body: Record<string, unknown> | undefined,
+  failureMessage: string,
+  options?: AIRequestOptions,
+  defaultTimeoutMs = DEFAULT_TIMEOUT_MS
+): Promise<T> {
+  if (!isAIEnabled()) {
+    throw new AINotConfiguredError();
+  }
+
+  // Cache hits never reach send, so the log only shows requests that used quota
+  const send = (sendOptions?: AIRequestOptions) =>
+    logAIRequest(path, body, () =>
+      withRetry(sendOptions, defaultTimeoutMs, async (signal) => {
+        const response = await sendRequest(
+          body
+            ? { method: 'POST', path, body: { projectId: CONFIG.projectId, ...body }, signal }
+            : { method: 'GET', path: `${path}?projectId=${CONFIG.projectId}`, signal }
+        );
+
+        return parseAPIResponse<T>(response, failureMessage);
+      })
+    );
+
+  if (body && options?.cacheTtlMs) {
+    return withCache(path, body, options, send);
+  }
+
+  return send(options);
+}
+
+// ============================================================================
+// REQUEST LOG
+// ============================================================================
+
+/**
+ * One AI request recorded in the on-device log
+ */
+export interface AIRequestLogEntry {
+  /** Unique ID of the entry */
+  id: string;
+  /** API endpoint that was called, e.g. '/api/ai/generate' */
+  endpoint: string;
+  /** The prompt (or latest chat message), shortened to 200 characters */
+  prompt: string;
+  /** When the request started (ISO date string) */
+  startedAt: string;
+  /** How long the request took including retries, in ms */
+  latencyMs: number;
+  /** Whether the request succeeded */
+  success: boolean;
+  /** Error code when the request failed, e.g. 'QUOTA_EXCEEDED' */
+  errorCode?: string;
+  /** Requests remaining after the call, if known */
+  remainingRequests: number | null;
+}
+
+/**
+ * Settings for the on-device request log
+ */
+export interface AIRequestLogConfig {
+  /** Record AI requests (default: `"appilyAILog"` in app.json's extra field, otherwise false) */
+  enabled?: boolean;
+  /** Keep at most this many entries, dropping the oldest (default: 200) */
+  maxEntries?: number;
+}
+
+const MAX_LOGGED_PROMPT_LENGTH = 200;
+
+const requestLogConfig = {
+  enabled: CONFIG.logRequests,
+  maxEntries: 200,
+};
+// Newest first; loaded from disk on first use
+let requestLog: AIRequestLogEntry[] | null = null;
+const requestLogListeners = new Set<() => void>();
+
+function getRequestLogFile(): File {
+  return new File(Paths.document, 'appily-ai-log.json');
+}
+
+function loadRequestLog(): AIRequestLogEntry[] {
+  if (requestLog) return requestLog;
+
+  requestLog = [];
+  try {
+    const file = getRequestLogFile();
+    if (file.exists) {
+      requestLog = JSON.parse(file.textSync()) as AIRequestLogEntry[];
+    }
+  } catch (e) {
+    console.warn('[Appily] AI request log is unreadable, starting a new one:', e);
+  }
+  return requestLog;
+}
+
+function setRequestLog(entries: AIRequestLogEntry[]) {
+  requestLog = entries;
+  try {
+    getRequestLogFile().write(JSON.stringify(entries));
+  } catch (e) {
+    console.warn('[Appily] Failed to save AI request log:', e);
+  }
+  requestLogListeners.forEach((listener) => listener());
+}
+
+/**
+ * Find the text a request is about (single prompt or latest chat message)
+ */
+function getLoggedPrompt(body: Record<string, unknown> | undefined): string {
+  const messages = body?.messages as { role: string; content: string }[] | undefined;
+  const prompt =
+    typeof body?.prompt === 'string'
+      ? body.prompt
+      : messages?.filter((message) => message.role === 'user').pop()?.content || '';
+
+  return prompt.length > MAX_LOGGED_PROMPT_LENGTH
+    ? `${prompt.slice(0, MAX_LOGGED_PROMPT_LENGTH)}…`
+    : prompt;
+}
+
+/**
+ * Run a request, leave a breadcrumb for error reports and record its outcome
+ * in the log (when logging is enabled)
+ */
+async function logAIRequest<T>(
+  endpoint: string,
+  body: Record<string, unknown> | undefined,
+  run: () => Promise<T>
+): Promise<T> {
+  const startedAt = Date.now();
+  let errorCode: string | undefined;
+
+  try {
+    return await run();
+  } catch (e) {
+    errorCode = e instanceof AIError ? e.code : 'UNKNOWN';
+    throw e;
+  } finally {
+    // Prompts can hold personal data, so the breadcrumb only says what was called
+    addBreadcrumb({
+      category: 'ai',
+      message: errorCode ? `${endpoint} failed (${errorCode})` : `${endpoint} succeeded`,
+      level: errorCode ? 'error' : 'info',
+      data: { latencyMs: Date.now() - startedAt },
+    });
+
+    if (requestLogConfig.enabled) {
+      const entry: AIRequestLogEntry = {
+        id: `${startedAt.toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+        endpoint,
+        prompt: getLoggedPrompt(body),
+        startedAt: new Date(startedAt).toISOString(),
+        latencyMs: Date.now() - startedAt,
+        success: errorCode === undefined,
+        errorCode,
+        remainingRequests: quotaState.remaining,
+      };
+      setRequestLog([entry, ...loadRequestLog()].slice(0, requestLogConfig.maxEntries));
+    }
+  }
+}
+
+/**
+ * Turn the on-device request log on or off, or change its size
+ *
+ * The log is stored in the app's document directory, so it survives restarts
+ * and shows where quota went over several sessions.
  *
  * @example
- * // Change outfit in a photo
- * const result = await editImage(
- *   selfieBase64,
- *   'Change my shirt to a red Hawaiian shirt'
- * );
+ * // Record requests in development builds only
+ * configureAIRequestLog({ enabled: __DEV__, maxEntries: 500 });
  */
-export async function editImage(
-  imageBase64: string,
-  prompt: string,
-  options?: ImageGenerationOptions
-): Promise<GenerateImageResult> {
-  if (!CONFIG.projectId) {
-    throw new Error('AI not configured - project ID missing');
+export function configureAIRequestLog(config: AIRequestLogConfig): void {
+  if (config.enabled !== undefined) {
+    requestLogConfig.enabled = config.enabled;
+  }
+  if (config.maxEntries !== undefined) {
+    requestLogConfig.maxEntries = Math.max(1, config.maxEntries);
+    const entries = loadRequestLog();
+    if (entries.length > requestLogConfig.maxEntries) {
+      setRequestLog(entries.slice(0, requestLogConfig.maxEntries));
+    }
   }
+}
+
+/**
+ * Whether AI requests are currently being recorded
+ */
+export function isAIRequestLogEnabled(): boolean {
+  return requestLogConfig.enabled;
+}
+
+/**
+ * Get the recorded AI requests, newest first
+ */
+export function getAIRequestLog(): AIRequestLogEntry[] {
+  return loadRequestLog();
+}
+
+/**
+ * Listen for new log entries
+ *
+ * @returns A function that removes the listener
+ */
+export function subscribeToAIRequestLog(listener: () => void): () => void {
+  requestLogListeners.add(listener);
+  return () => {
+    requestLogListeners.delete(listener);
+  };
+}
+
+/**
+ * Delete every recorded AI request
+ */
+export function clearAIRequestLog(): void {
+  setRequestLog([]);
+}
 
-  const response = await fetch(`${CONFIG.apiUrl}/api/ai/generate-image`, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({
+/**
+ * Serialize the request log as pretty-printed JSON, e.g. to share it
+ *
+ * @example
+ * await Share.share({ message: exportAIRequestLog() });
+ */
+export function exportAIRequestLog(): string {
+  return JSON.stringify(
+    {
       projectId: CONFIG.projectId,
-      prompt,
-      imageBase64,
-      aspectRatio: options?.aspectRatio || '1:1',
-      resolution: options?.resolution || '1K',
-    }),
+      exportedAt: new Date().toISOString(),
+      entries: loadRequestLog(),
+    },
+    null,
+    2
+  );
+}
+
+// ============================================================================
+// CACHE
+// ============================================================================
+
+/**
+ * Key-value storage for persisting cached responses across app launches
+ *
+ * Matches the AsyncStorage API, so `@react-native-async-storage/async-storage`
+ * can be passed in directly.
+ */
+export interface AICacheStorage {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+  /** Used by clearAICache to find entries written in earlier launches */
+  getAllKeys?(): Promise<readonly string[]>;
+}
+
+/**
+ * Options for the response cache
+ */
+export interface AICacheConfig {
+  /** Persist cached responses here in addition to memory */
+  storage?: AICacheStorage;
+  /** Maximum responses kept in memory (default: 100) */
+  maxMemoryEntries?: number;
+}
+
+interface CacheEntry {
+  value: unknown;
+  expiresAt: number;
+}
+
+interface InFlightRequest {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  waiters: number;
+}
+
+const CACHE_STORAGE_PREFIX = 'appily-ai-cache:';
+
+let cacheConfig: AICacheConfig = { maxMemoryEntries: 100 };
+const memoryCache = new Map<string, CacheEntry>();
+const inFlightRequests = new Map<string, InFlightRequest>();
+
+/**
+ * Configure the response cache used by calls with `cacheTtlMs`
+ *
+ * @example
+ * import AsyncStorage from '@react-native-async-storage/async-storage';
+ *
+ * configureAICache({ storage: AsyncStorage });
+ *
+ * // Reopening the screen the same day reuses the tip instead of spending quota
+ * const tip = await generateText('Give me a productivity tip', undefined, {
+ *   cacheTtlMs: 24 * 60 * 60 * 1000,
+ * });
+ */
+export function configureAICache(config: AICacheConfig): void {
+  cacheConfig = { ...cacheConfig, ...config };
+}
+
+/**
+ * Remove every cached response from memory and persistent storage
+ */
+export async function clearAICache(): Promise<void> {
+  const keys = [...memoryCache.keys()].map((key) => CACHE_STORAGE_PREFIX + key);
+  memoryCache.clear();
+
+  const storage = cacheConfig.storage;
+  if (!storage) return;
+
+  if (storage.getAllKeys) {
+    const storedKeys = await storage.getAllKeys();
+    keys.push(...storedKeys.filter((key) => key.startsWith(CACHE_STORAGE_PREFIX)));
+  }
+
+  await Promise.all([...new Set(keys)].map((key) => storage.removeItem(key)));
+}
+
+/**
+ * Stable string form of a request body: sorted keys, trimmed strings, no undefined values
+ */
+function normalizeForCache(value: unknown): string {
+  if (typeof value === 'string') {
+    return JSON.stringify(value.trim());
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(normalizeForCache).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${normalizeForCache(item)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function rememberInMemory(key: string, entry: CacheEntry) {
+  // Re-insert so the Map's insertion order doubles as least-recently-used order
+  memoryCache.delete(key);
+  memoryCache.set(key, entry);
+
+  const maxEntries = cacheConfig.maxMemoryEntries ?? 100;
+  while (memoryCache.size > maxEntries) {
+    memoryCache.delete(memoryCache.keys().next().value!);
+  }
+}
+
+async function readFromStorage(key: string): Promise<CacheEntry | undefined> {
+  if (!cacheConfig.storage) return undefined;
+
+  try {
+    const stored = await cacheConfig.storage.getItem(CACHE_STORAGE_PREFIX + key);
+    return stored ? (JSON.parse(stored) as CacheEntry) : undefined;
+  } catch (e) {
+    console.warn('[Appily] Failed to read AI cache:', e);
+    return undefined;
+  }
+}
+
+function writeToStorage(key: string, entry: CacheEntry) {
+  cacheConfig.storage
+    ?.setItem(CACHE_STORAGE_PREFIX + key, JSON.stringify(entry))
+    .catch((e) => console.warn('[Appily] Failed to write AI cache:', e));
+}
+
+/**
+ * Wait for a shared in-flight request, leaving it early if this caller cancels
+ *
+ * The shared request is only aborted once every caller waiting on it has cancelled.
+ */
+function joinInFlight<T>(request: InFlightRequest, signal?: AbortSignal): Promise<T> {
+  request.waiters++;
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => {
+      request.waiters--;
+      if (request.waiters === 0) {
+        request.controller.abort();
+      }
+      reject(new AIAbortedError());
+    };
+
+    if (signal?.aborted) {
+      onAbort();
+      return;
+    }
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    request.promise.then(
+      (value) => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve(value as T);
+      },
+      (error) => {
+        signal?.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
   });
+}
 
-  const data: APIResponse<{
-    imageBase64: string;
-    mimeType: string;
-    remainingRequests: number;
-  }> = await response.json();
+/**
+ * Serve a request from the cache, or send it once and cache the result
+ *
+ * Looks in memory, then joins an identical request already in flight, then
+ * checks persistent storage before finally hitting the network.
+ */
+async function withCache<T>(
+  path: string,
+  body: Record<string, unknown>,
+  options: AIRequestOptions,
+  send: (options: AIRequestOptions) => Promise<T>
+): Promise<T> {
+  const key = `${path}:${hashString(normalizeForCache({ projectId: CONFIG.projectId, ...body })).toString(36)}`;
+  const ttlMs = options.cacheTtlMs!;
+
+  const cached = memoryCache.get(key);
+  if (cached && cached.expiresAt > Date.now()) {
+    rememberInMemory(key, cached);
+    return cached.value as T;
+  }
+
+  const existing = inFlightRequests.get(key);
+  if (existing) {
+    return joinInFlight<T>(existing, options.signal);
+  }
+
+  const controller = new AbortController();
+  const request: InFlightRequest = {
+    controller,
+    waiters: 0,
+    promise: (async () => {
+      const stored = await readFromStorage(key);
+      if (stored && stored.expiresAt > Date.now()) {
+        rememberInMemory(key, stored);
+        return stored.value;
+      }
+
+      const value = await send({ ...options, signal: controller.signal });
+      const entry = { value, expiresAt: Date.now() + ttlMs };
+      rememberInMemory(key, entry);
+      writeToStorage(key, entry);
+      return value;
+    })().finally(() => {
+      inFlightRequests.delete(key);
+    }),
+  };
+  inFlightRequests.set(key, request);
+
+  return joinInFlight<T>(request, options.signal);
+}
+
+// ============================================================================
+// IMAGE UPLOADS
+// ============================================================================
+
+/**
+ * How input images are shrunk before being uploaded
+ */
+export interface ImageCompressionOptions {
+  /** Longest side in pixels; larger images are scaled down (default: 1536) */
+  maxDimension?: number;
+  /** JPEG quality from 0 to 1 (default: 0.8); PNGs stay lossless so transparency survives */
+  quality?: number;
+}
+
+/**
+ * What happened to an input image before upload
+ */
+export interface ImageUploadInfo {
+  /** Size of the image as passed in, in bytes */
+  originalBytes: number;
+  /** Size of the image actually sent, in bytes */
+  sentBytes: number;
+  /** Dimensions of the image sent, when it was re-encoded */
+  width?: number;
+  height?: number;
+  /** Whether the image was resized/re-encoded */
+  compressed: boolean;
+}
+
+const DEFAULT_MAX_IMAGE_DIMENSION = 1536;
+const DEFAULT_IMAGE_QUALITY = 0.8;
+
+/**
+ * Decoded size of base64 data in bytes
+ */
+function base64Bytes(base64: string): number {
+  const padding = base64.endsWith('==') ? 2 : base64.endsWith('=') ? 1 : 0;
+  return Math.floor((base64.length * 3) / 4) - padding;
+}
+
+/**
+ * Whether base64 image data is a PNG, going by the data: prefix or the file signature
+ */
+function isPNG(prefix: string, base64: string): boolean {
+  return prefix.includes('image/png') || base64.startsWith('iVBORw0KGgo');
+}
+
+/**
+ * Resize and re-encode an image so large camera photos upload quickly
+ *
+ * PNGs keep their format (and transparency, e.g. cut-out products) and are
+ * only re-encoded when they need resizing. Other images become JPEG.
+ * Falls back to the original image if it can't be decoded, or if re-encoding
+ * wouldn't make it smaller.
+ *
+ * @param imageBase64 - Base64 image (with or without data: prefix)
+ * @returns Base64 without data: prefix, plus before/after sizes
+ */
+async function prepareImageForUpload(
+  imageBase64: string,
+  compression: ImageCompressionOptions | false | undefined
+): Promise<{ base64: string; upload: ImageUploadInfo }> {
+  // Remove data: prefix if present (the API handles both formats)
+  const [prefix, cleanBase64] = imageBase64.includes(',')
+    ? imageBase64.split(',')
+    : ['data:image/jpeg;base64', imageBase64];
+  const originalBytes = base64Bytes(cleanBase64);
+  const original = {
+    base64: cleanBase64,
+    upload: { originalBytes, sentBytes: originalBytes, compressed: false },
+  };
+
+  if (compression === false) {
+    return original;
+  }
+
+  const maxDimension = compression?.maxDimension ?? DEFAULT_MAX_IMAGE_DIMENSION;
+  const quality = compression?.quality ?? DEFAULT_IMAGE_QUALITY;
+  const png = isPNG(prefix, cleanBase64);
+
+  try {
+    let image = await ImageManipulator.manipulate(`${prefix},${cleanBase64}`).renderAsync();
+    const needsResize = Math.max(image.width, image.height) > maxDimension;
+
+    // Re-encoding a PNG to PNG at the same size gains nothing
+    if (png && !needsResize) {
+      return original;
+    }
+
+    if (needsResize) {
+      image = await ImageManipulator.manipulate(image)
+        .resize(image.width >= image.height ? { width: maxDimension } : { height: maxDimension })
+        .renderAsync();
+    }
 
-  if (!data.success || !data.data) {
-    throw new Error(data.error?.message || 'AI image editing failed');
+    const saved = await image.saveAsync(
+      png
+        ? { base64: true, format: SaveFormat.PNG }
+        : { base64: true, compress: quality, format: SaveFormat.JPEG }
+    );
+    if (!saved.base64) {
+      return original;
+    }
+
+    const sentBytes = base64Bytes(saved.base64);
+    if (!needsResize && sentBytes >= originalBytes) {
+      return original;
+    }
+
+    return {
+      base64: saved.base64,
+      upload: { originalBytes, sentBytes, width: saved.width, height: saved.height, compressed: true },
+    };
+  } catch (e) {
+    console.warn('[Appily] Image compression failed, sending original:', e);
+    return original;
+  }
+}
+
+/**
+ * Shrink an image the same way AI functions do before upload
+ *
+ * Useful for images you keep and send again later, such as chat attachments:
+ * chat() sends images as they are, on every turn.
+ *
+ * @param imageBase64 - Base64 image (with or without data: prefix)
+ * @param options - Maximum dimension and JPEG quality
+ * @returns A data URL - the input unchanged if compressing wouldn't make it smaller
+ *
+ * @example
+ * const picked = await ImagePicker.launchImageLibraryAsync({ base64: true });
+ * const photo = await compressImage(`data:image/jpeg;base64,${picked.assets[0].base64}`);
+ */
+export async function compressImage(
+  imageBase64: string,
+  options?: ImageCompressionOptions
+): Promise<string> {
+  const { base64, upload } = await prepareImageForUpload(imageBase64, options);
+  if (!upload.compressed) {
+    return imageBase64.includes(',') ? imageBase64 : `data:image/jpeg;base64,${imageBase64}`;
   }
+  return `data:${isPNG('', base64) ? 'image/png' : 'image/jpeg'};base64,${base64}`;
+}
+
+/**
+ * An image with an optional name the prompt can refer to
+ */
+export interface LabeledImage {
+  /** Base64 image data (with or without data: prefix) or an http(s) URL */
+  image: string;
+  /** Optional name, e.g. 'Outfit A', 'Before' or 'Background' */
+  label?: string;
+}
+
+/**
+ * Compress the base64 images in a list and convert everything to API payloads
+ *
+ * URL images are passed through for the API to download.
+ */
+async function prepareLabeledImages(
+  images: (string | LabeledImage)[],
+  compression: ImageCompressionOptions | false | undefined
+) {
+  const inputs = images.map((item) => (typeof item === 'string' ? { image: item } : item));
+
+  const prepared = await Promise.all(
+    inputs.map(async ({ image, label }) => {
+      if (/^https?:\/\//.test(image)) {
+        return { payload: { imageUrl: image, label }, upload: undefined };
+      }
+      const compressed = await prepareImageForUpload(image, compression);
+      return { payload: { imageBase64: compressed.base64, label }, upload: compressed.upload };
+    })
+  );
 
   return {
-    imageBase64: `data:${data.data.mimeType};base64,${data.data.imageBase64}`,
-    remainingRequests: data.data.remainingRequests,
+    payloads: prepared.map((item) => item.payload),
+    uploads: prepared.map((item) => item.upload),
+    /** Numbered list such as "Image 1: Before\nImage 2: After" */
+    description: (noun: string) =>
+      inputs.map(({ label }, index) => `${noun} ${index + 1}${label ? `: ${label}` : ''}`).join('\n'),
   };
 }
+
+/**
+ * Match an edit mask to the size the source image was sent at
+ *
+ * Masks are kept as PNG so the painted edges stay sharp.
+ */
+async function prepareMaskForUpload(mask: string, source: ImageUploadInfo): Promise<string> {
+  const [prefix, cleanBase64] = mask.includes(',') ? mask.split(',') : ['data:image/png;base64', mask];
+
+  if (!source.compressed || !source.width || !source.height) {
+    return cleanBase64;
+  }
+
+  try {
+    const image = await ImageManipulator.manipulate(`${prefix},${cleanBase64}`)
+      .resize({ width: source.width, height: source.height })
+      .renderAsync();
+    const saved = await image.saveAsync({ base64: true, format: SaveFormat.PNG });
+    return saved.base64 || cleanBase64;
+  } catch (e) {
+    console.warn('[Appily] Mask resize failed, sending original:', e);
+    return cleanBase64;
+  }
+}
+
+// ============================================================================
+// TEXT GENERATION (GPT-5 mini)
+// ============================================================================
+
+/**
+ * Generate text using AI (GPT-5 mini)
+ *
+ * @param prompt - What you want the AI to generate
+ * @param systemPrompt - Optional context/instructions for the AI
+ * @param options - Optional model parameters (maxTokens, temperature, ...), abort signal, timeout and retry settings
+ * @returns The generated text and remaining quota
+ *
+ * @example
+ * // Generate a poem
+ * const result = await generateText('Write a haiku about spring');
+ * console.log(result.text);
+ *
+ * @example
+ * // Generate with custom personality
+ * const result = await generateText(
+ *   'Tell me a joke',
+ *   'You are a comedian who loves puns'
+ * );
+ *
+ * @example
+ * // Long-form, repeatable output in another language
+ * const result = await generateText('Summarize this article: ...', undefined, {
+ *   maxTokens: 4096,
+ *   temperature: 0,
+ *   language: 'German',
+ * });
+ */
+export async function generateText(
+  prompt: string,
+  systemPrompt?: string,
+  options?: TextGenerationOptions
+): Promise<GenerateTextResult> {
+  const data = await requestAI<{ text: string; remainingRequests: number }>(
+    '/api/ai/generate',
+    {
+      prompt,
+      systemPrompt: withLanguage(systemPrompt || '', options) || undefined,
+      ...getModelParams(options),
+    },
+    'AI text generation failed',
+    options
+  );
+
+  return {
+    text: data.text,
+    remainingRequests: data.remainingRequests,
+  };
+}
+
+/**
+ * Generate text using AI (GPT-5 mini), receiving it piece by piece
+ *
+ * Works like generateText, but calls `onToken` as soon as each chunk of text
+ * arrives so chat-like screens can show the answer while it is being written.
+ *
+ * @param prompt - What you want the AI to generate
+ * @param onToken - Called with each new chunk and the full text so far
+ * @param systemPrompt - Optional context/instructions for the AI
+ * @param options - Optional model parameters, abort signal, timeout and retry settings
+ * @returns The complete text and remaining quota once the stream ends
+ *
+ * @example
+ * const [answer, setAnswer] = useState('');
+ *
+ * const result = await streamText(
+ *   'Explain photosynthesis to a 10 year old',
+ *   (delta, text) => setAnswer(text)
+ * );
+ * console.log(`${result.remainingRequests} requests left`);
+ */
+export async function streamText(
+  prompt: string,
+  onToken: TextStreamCallback,
+  systemPrompt?: string,
+  options?: TextGenerationOptions
+): Promise<GenerateTextResult> {
+  return streamGeneration(
+    {
+      prompt,
+      systemPrompt: withLanguage(systemPrompt || '', options) || undefined,
+      ...getModelParams(options),
+    },
+    onToken,
+    'AI text generation failed',
+    options
+  );
+}
+
+/**
+ * Send a generate request with `stream: true` and feed the text deltas to `onToken`
+ *
+ * Shared by streamText and streamChat. Only retries before the first token,
+ * since a retry after that would repeat text the user has already seen.
+ */
+async function streamGeneration(
+  body: Record<string, unknown>,
+  onToken: TextStreamCallback,
+  failureMessage: string,
+  options?: AIRequestOptions
+): Promise<GenerateTextResult> {
+  if (!isAIEnabled()) {
+    throw new AINotConfiguredError();
+  }
+
+  let receivedText = false;
+
+  return logAIRequest('/api/ai/generate', body, () =>
+    withRetry(
+      options,
+      DEFAULT_TIMEOUT_MS,
+      async (signal, keepAlive) => {
+        const response = await sendRequest({
+          method: 'POST',
+          path: '/api/ai/generate',
+          body: { projectId: CONFIG.projectId, ...body, stream: true },
+          stream: true,
+          signal,
+        });
+
+        // Errors raised before the first token come back as a regular JSON response
+        if (!response.events) {
+          const data = await parseAPIResponse<{ text: string; remainingRequests: number }>(
+            response,
+            failureMessage
+          );
+
+          receivedText = true;
+          onToken(data.text, data.text);
+          return {
+            text: data.text,
+            remainingRequests: data.remainingRequests,
+          };
+        }
+
+        let text = '';
+        let remainingRequests: number | undefined;
+
+        try {
+          for await (const payload of response.events) {
+            keepAlive();
+
+            let event: TextStreamEvent;
+            try {
+              event = JSON.parse(payload) as TextStreamEvent;
+            } catch {
+              throw new AIInvalidResponseError(response.status);
+            }
+
+            if (event.type === 'delta') {
+              text += event.text;
+              receivedText = true;
+              onToken(event.text, text);
+            } else if (event.type === 'done') {
+              remainingRequests = event.remainingRequests;
+            } else if (event.type === 'error') {
+              throw createAIError(event.error, response.status, failureMessage);
+            }
+          }
+        } catch (e) {
+          throw e instanceof AIError ? e : new AINetworkError('AI text stream was interrupted', e);
+        }
+
+        // The stream closed without a final event (e.g. connection dropped mid-answer)
+        if (remainingRequests === undefined) {
+          throw new AINetworkError('AI text stream ended before completion');
+        }
+
+        return { text, remainingRequests };
+      },
+      () => !receivedText
+    )
+  );
+}
+
+/**
+ * Analyze an image using AI vision (GPT-5 mini)
+ *
+ * The image is scaled down to 1536px (and photos re-encoded as JPEG) before
+ * upload unless `compression` says otherwise.
+ *
+ * @param imageBase64 - Base64 encoded image data (with or without data: prefix)
+ * @param prompt - What to analyze about the image
+ * @param options - Optional model parameters, compression, abort signal, timeout and retry settings
+ * @returns The analysis result and remaining quota
+ *
+ * @example
+ * // Identify a dog breed
+ * const result = await analyzeImage(photoBase64, 'What breed is this dog?');
+ * console.log(result.analysis);
+ *
+ * @example
+ * // Describe image contents
+ * const result = await analyzeImage(imageBase64, 'Describe what you see');
+ */
+export async function analyzeImage(
+  imageBase64: string,
+  prompt: string,
+  options?: AnalyzeImageOptions
+): Promise<AnalyzeImageResult> {
+  const image = await prepareImageForUpload(imageBase64, options?.compression);
+
+  const data = await requestAI<{ analysis: string; remainingRequests: number }>(
+    '/api/ai/vision',
+    {
+      imageBase64: image.base64,
+      prompt: withLanguage(prompt, options),
+      ...getModelParams(options),
+    },
+    'AI image analysis failed',
+    options
+  );
+
+  return {
+    analysis: data.analysis,
+    remainingRequests: data.remainingRequests,
+    upload: image.upload,
+  };
+}
+
+/**
+ * Analyze an image from URL using AI vision (GPT-5 mini)
+ *
+ * @param imageUrl - URL of the image to analyze
+ * @param prompt - What to analyze about the image
+ * @param options - Optional model parameters, abort signal, timeout and retry settings
+ * @returns The analysis result and remaining quota
+ *
+ * @example
+ * const result = await analyzeImageUrl(
+ *   'https://example.com/dog.jpg',
+ *   'What breed is this dog?'
+ * );
+ */
+export async function analyzeImageUrl(
+  imageUrl: string,
+  prompt: string,
+  options?: TextGenerationOptions
+): Promise<AnalyzeImageResult> {
+  const data = await requestAI<{ analysis: string; remainingRequests: number }>(
+    '/api/ai/vision',
+    {
+      imageUrl,
+      prompt: withLanguage(prompt, options),
+      ...getModelParams(options),
+    },
+    'AI image analysis failed',
+    options
+  );
+
+  return {
+    analysis: data.analysis,
+    remainingRequests: data.remainingRequests,
+  };
+}
+
+/**
+ * Response from a multi-image analysis
+ */
+export interface AnalyzeImagesResult {
+  /** The AI's analysis across all images */
+  analysis: string;
+  /** Number of AI requests remaining this period */
+  remainingRequests: number;
+  /** Upload sizes for each image, in order (undefined for URL images) */
+  uploads: (ImageUploadInfo | undefined)[];
+}
+
+/**
+ * Analyze several images together using AI vision (GPT-5 mini)
+ *
+ * Ask questions that span multiple pictures - compare them, find what changed,
+ * or pick the best one. Images can mix base64 data and URLs, and each can have
+ * a label so the prompt and the answer can refer to it by name.
+ *
+ * @param images - Images in the order the AI should see them (strings or { image, label })
+ * @param prompt - What to analyze across the images
+ * @param options - Optional model parameters, compression, abort signal, timeout and retry settings
+ * @returns The analysis result and remaining quota
+ *
+ * @example
+ * // Compare outfits
+ * const result = await analyzeImages(
+ *   [
+ *     { image: outfitA, label: 'Outfit A' },
+ *     { image: outfitB, label: 'Outfit B' },
+ *   ],
+ *   'Which outfit works better for a summer wedding?'
+ * );
+ *
+ * @example
+ * // Spot the difference between two photos
+ * const result = await analyzeImages(
+ *   [{ image: beforeBase64, label: 'Before' }, { image: afterUrl, label: 'After' }],
+ *   'What changed between these two photos?'
+ * );
+ */
+export async function analyzeImages(
+  images: (string | LabeledImage)[],
+  prompt: string,
+  options?: AnalyzeImageOptions
+): Promise<AnalyzeImagesResult> {
+  if (images.length === 0) {
+    throw new AIInvalidArgumentError('analyzeImages requires at least one image');
+  }
+
+  const prepared = await prepareLabeledImages(images, options?.compression);
+
+  const data = await requestAI<{ analysis: string; remainingRequests: number }>(
+    '/api/ai/vision',
+    {
+      images: prepared.payloads,
+      // Spell out the order and labels so the prompt can refer to images by name
+      prompt: withLanguage(`${prepared.description('Image')}\n\n${prompt}`, options),
+      ...getModelParams(options),
+    },
+    'AI image analysis failed',
+    options
+  );
+
+  return {
+    analysis: data.analysis,
+    remainingRequests: data.remainingRequests,
+    uploads: prepared.uploads,
+  };
+}
+
+/**
+ * Check remaining AI quota for this project
+ *
+ * @param options - Optional abort signal, timeout and retry settings
+ * @returns Current quota status
+ *
+ * @example
+ * const quota = await checkAIQuota();
+ * console.log(`${quota.remaining}/${quota.max} requests remaining`);
+ * console.log(`Resets on: ${new Date(quota.periodEnd).toLocaleDateString()}`);
+ */
+export async function checkAIQuota(options?: AIRequestOptions): Promise<AIQuotaResult> {
+  const data = await requestAI<{
+    remainingRequests: number;
+    maxRequests: number;
+    periodEnd: string;
+  }>('/api/ai/usage', undefined, 'Failed to check AI quota', options);
+
+  setQuotaState({
+    max: data.maxRequests,
+    periodEnd: data.periodEnd,
+    refreshedAt: Date.now(),
+  });
+
+  return {
+    remaining: data.remainingRequests,
+    max: data.maxRequests,
+    periodEnd: data.periodEnd,
+  };
+}
+
+// ============================================================================
+// QUOTA STORE
+// ============================================================================
+
+/**
+ * Latest known quota, kept up to date by every AI response
+ *
+ * Fields are null until the first response (or quota check) reports them.
+ */
+export interface AIQuotaState {
+  /** Number of AI requests remaining */
+  remaining: number | null;
+  /** Maximum requests allowed per period */
+  max: number | null;
+  /** When the quota resets (ISO date string) */
+  periodEnd: string | null;
+  /** When max/periodEnd were last fetched from the usage API (ms timestamp) */
+  refreshedAt: number | null;
+}
+
+// How long a full quota check stays fresh before refreshAIQuota fetches again
+const QUOTA_STALE_MS = 5 * 60 * 1000;
+
+let quotaState: AIQuotaState = {
+  remaining: null,
+  max: null,
+  periodEnd: null,
+  refreshedAt: null,
+};
+const quotaListeners = new Set<() => void>();
+let quotaRefresh: Promise<AIQuotaState> | null = null;
+
+function setQuotaState(update: Partial<AIQuotaState>) {
+  quotaState = { ...quotaState, ...update };
+  quotaListeners.forEach((listener) => listener());
+}
+
+/**
+ * Record the remainingRequests reported by any AI response
+ */
+function updateQuotaFromResult(result: unknown) {
+  const remaining = (result as { remainingRequests?: unknown } | null)?.remainingRequests;
+  if (typeof remaining === 'number' && remaining !== quotaState.remaining) {
+    setQuotaState({ remaining });
+  }
+}
+
+/**
+ * Get the latest known quota without making a request
+ */
+export function getAIQuota(): AIQuotaState {
+  return quotaState;
+}
+
+/**
+ * Listen for quota changes
+ *
+ * @returns A function that removes the listener
+ */
+export function subscribeToAIQuota(listener: () => void): () => void {
+  quotaListeners.add(listener);
+  return () => {
+    quotaListeners.delete(listener);
+  };
+}
+
+/**
+ * Fetch the quota from the usage API if the stored value is missing or stale
+ *
+ * Concurrent calls share one request. Pass `force` to always fetch.
+ *
+ * @example
+ * // Make sure max/periodEnd are known before showing "3 of 50 left"
+ * const quota = await refreshAIQuota();
+ */
+export async function refreshAIQuota(force = false): Promise<AIQuotaState> {
+  const periodEnded = quotaState.periodEnd !== null && Date.parse(quotaState.periodEnd) <= Date.now();
+  const isFresh =
+    quotaState.refreshedAt !== null && Date.now() - quotaState.refreshedAt < QUOTA_STALE_MS;
+
+  if (!force && isFresh && !periodEnded) {
+    return quotaState;
+  }
+
+  if (!quotaRefresh) {
+    quotaRefresh = checkAIQuota()
+      .then(() => quotaState)
+      .finally(() => {
+        quotaRefresh = null;
+      });
+  }
+
+  return quotaRefresh;
+}
+
+// ============================================================================
+// IMAGE GENERATION (Gemini - Nano Banana Pro)
+// ============================================================================
+
+/**
+ * Supported aspect ratios for image generation
+ */
+export type ImageAspectRatio = '1:1' | '16:9' | '9:16' | '4:3' | '3:4' | '3:2' | '2:3';
+
+/**
+ * Supported image resolutions
+ */
+export type ImageResolution = '1K' | '2K';
+
+/**
+ * Options for image generation
+ */
+export interface ImageGenerationOptions extends AIRequestOptions {
+  /** Aspect ratio of the generated image (default: '1:1') */
+  aspectRatio?: ImageAspectRatio;
+  /** Resolution: '1K' (faster) or '2K' (higher quality) (default: '1K') */
+  resolution?: ImageResolution;
+}
+
+/**
+ * Response from image generation API
+ */
+export interface GenerateImageResult {
+  /** Full data URL for the generated image (data:image/png;base64,...) */
+  imageBase64: string;
+  /** Number of AI requests remaining this period */
+  remainingRequests: number;
+  /** Size of the uploaded source image before and after compression (editImage only) */
+  upload?: ImageUploadInfo;
+}
+
+/**
+ * Options for image editing
+ */
+export interface ImageEditOptions extends ImageGenerationOptions {
+  /** How to shrink input images before upload, or false to send them untouched (default: 1536px, 0.8 quality) */
+  compression?: ImageCompressionOptions | false;
+  /**
+   * Black and white PNG (base64) the same size as the source image: only the
+   * white areas are changed, everything in black is kept as is
+   */
+  mask?: string;
+  /** Extra images to take a style, subject or object from (base64 or URLs, optionally labeled) */
+  referenceImages?: (string | LabeledImage)[];
+}
+
+/**
+ * Generate an image from a text prompt using AI (Gemini - Nano Banana Pro)
+ *
+ * @param prompt - Text description of the image to generate
+ * @param options - Optional settings for aspect ratio, resolution, timeout and retries
+ * @returns The generated image as a data URL and remaining quota
+ *
+ * @example
+ * // Generate a simple image
+ * const result = await generateImage('A cute robot playing guitar on a beach');
+ * // Use result.imageBase64 directly in an Image component
+ *
+ * @example
+ * // Generate with custom options
+ * const result = await generateImage(
+ *   'A mountain landscape at sunset',
+ *   { aspectRatio: '16:9', resolution: '2K' }
+ * );
+ */
+export async function generateImage(
+  prompt: string,
+  options?: ImageGenerationOptions
+): Promise<GenerateImageResult> {
+  const data = await requestAI<{
+    imageBase64: string;
+    mimeType: string;
+    remainingRequests: number;
+  }>(
+    '/api/ai/generate-image',
+    {
+      prompt,
+      aspectRatio: options?.aspectRatio || '1:1',
+      resolution: options?.resolution || '1K',
+    },
+    'AI image generation failed',
+    options,
+    DEFAULT_IMAGE_TIMEOUT_MS
+  );
+
+  // Return as full data URL for easy use in Image components
+  return {
+    imageBase64: `data:${data.mimeType};base64,${data.imageBase64}`,
+    remainingRequests: data.remainingRequests,
+  };
+}
+
+/**
+ * Edit an existing image using AI (Gemini - Nano Banana Pro)
+ *
+ * This function allows you to modify photos with text instructions.
+ * Great for adding effects, changing backgrounds, adding objects, etc.
+ *
+ * The source image is scaled down to 1536px before upload; photos are
+ * re-encoded as JPEG while PNGs keep their transparency. Pass
+ * `compression: false` to send it at full fidelity.
+ *
+ * @param imageBase64 - Base64-encoded source image (with or without data: prefix)
+ * @param prompt - Text description of the edits to make
+ * @param options - Optional settings for aspect ratio, resolution, compression, timeout and retries
+ * @returns The edited image as a data URL and remaining quota
+ *
+ * @example
+ * // Pick a photo and add something to it
+ * import * as ImagePicker from 'expo-image-picker';
+ *
+ * const picked = await ImagePicker.launchImageLibraryAsync({ base64: true });
+ * if (picked.assets?.[0]?.base64) {
+ *   const result = await editImage(
+ *     picked.assets[0].base64,
+ *     'Add a colorful parrot on my shoulder'
+ *   );
+ *   // result.imageBase64 contains the edited image
+ * }
+ *
+ * @example
+ * // Change outfit in a photo
+ * const result = await editImage(
+ *   selfieBase64,
+ *   'Change my shirt to a red Hawaiian shirt'
+ * );
+ *
+ * @example
+ * // Only repaint the area the user painted over (white in the mask)
+ * const result = await editImage(roomBase64, 'Replace with a green velvet sofa', {
+ *   mask: paintedMaskBase64,
+ * });
+ *
+ * @example
+ * // Put a product on a new background
+ * const result = await editImage(productBase64, 'Place the product on the Background scene', {
+ *   referenceImages: [{ image: beachPhotoBase64, label: 'Background' }],
+ *   aspectRatio: '4:3',
+ * });
+ */
+export async function editImage(
+  imageBase64: string,
+  prompt: string,
+  options?: ImageEditOptions
+): Promise<GenerateImageResult> {
+  const image = await prepareImageForUpload(imageBase64, options?.compression);
+  const maskBase64 = options?.mask ? await prepareMaskForUpload(options.mask, image.upload) : undefined;
+  const references = options?.referenceImages?.length
+    ? await prepareLabeledImages(options.referenceImages, options.compression)
+    : undefined;
+
+  const data = await requestAI<{
+    imageBase64: string;
+    mimeType: string;
+    remainingRequests: number;
+  }>(
+    '/api/ai/generate-image',
+    {
+      // Spell out the reference labels so the prompt can refer to them by name
+      prompt: references ? `${references.description('Reference image')}\n\n${prompt}` : prompt,
+      imageBase64: image.base64,
+      maskBase64,
+      referenceImages: references?.payloads,
+      aspectRatio: options?.aspectRatio || '1:1',
+      resolution: options?.resolution || '1K',
+    },
+    'AI image editing failed',
+    options,
+    DEFAULT_IMAGE_TIMEOUT_MS
+  );
+
+  return {
+    imageBase64: `data:${data.mimeType};base64,${data.imageBase64}`,
+    remainingRequests: data.remainingRequests,
+    upload: image.upload,
+  };
+}
+
+/**
+ * Progress of a batch started with generateImages
+ */
+export interface GenerateImagesProgress {
+  /** Position of the image that just finished */
+  index: number;
+  /** The image, if it was generated */
+  image?: GenerateImageResult;
+  /** Why it failed, if it did */
+  error?: AIError;
+  /** How many images have finished (successfully or not) */
+  completed: number;
+  /** How many images were requested */
+  total: number;
+}
+
+/**
+ * Options for batch image generation
+ */
+export interface GenerateImagesOptions extends ImageGenerationOptions {
+  /** How many images to generate (default: 4) */
+  count?: number;
+  /** Ask for a distinct take on the prompt in each image instead of near-duplicates (default: true) */
+  seedVariation?: boolean;
+  /** How many images are generated at the same time (default: 2) */
+  concurrency?: number;
+  /** Called every time an image finishes or fails */
+  onProgress?: (progress: GenerateImagesProgress) => void;
+}
+
+/**
+ * Response from batch image generation
+ */
+export interface GenerateImagesResult {
+  /** One entry per requested image, in order - null where generation failed */
+  images: (GenerateImageResult | null)[];
+  /** Failures, with the position of the image each one belongs to */
+  errors: { index: number; error: AIError }[];
+  /** Number of AI requests remaining this period, if known */
+  remainingRequests: number | null;
+}
+
+/**
+ * Generate several images from one prompt (Gemini - Nano Banana Pro)
+ *
+ * Runs a few requests at a time and reports each image as it arrives. If some
+ * images fail the rest are still returned. The quota is checked up front so a
+ * batch that can't finish isn't started.
+ *
+ * @param prompt - Text description of the images to generate
+ * @param options - Count, variation, concurrency, progress callback and image settings
+ * @returns The images in order (null for failures), the errors and remaining quota
+ * @throws AIInvalidArgumentError if count or concurrency isn't a positive integer
+ * @throws AIQuotaExceededError if there aren't enough requests left for the whole batch
+ *
+ * @example
+ * // Avatar picker: show each option as soon as it's ready
+ * const { images } = await generateImages('A friendly cartoon fox avatar', {
+ *   count: 6,
+ *   onProgress: ({ index, image }) => {
+ *     if (image) setAvatars((current) => ({ ...current, [index]: image.imageBase64 }));
+ *   },
+ * });
+ */
+export async function generateImages(
+  prompt: string,
+  options?: GenerateImagesOptions
+): Promise<GenerateImagesResult> {
+  const {
+    count = 4,
+    seedVariation = true,
+    concurrency = 2,
+    onProgress,
+    ...imageOptions
+  } = options ?? {};
+
+  if (!Number.isInteger(count) || count < 1) {
+    throw new AIInvalidArgumentError(`generateImages count must be a positive integer (got ${count})`);
+  }
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new AIInvalidArgumentError(
+      `generateImages concurrency must be a positive integer (got ${concurrency})`
+    );
+  }
+
+  if (!isAIEnabled()) {
+    throw new AINotConfiguredError();
+  }
+
+  const quota = await refreshAIQuota();
+  if (quota.remaining !== null && quota.remaining < count) {
+    throw new AIQuotaExceededError(
+      `Not enough AI requests left for ${count} images (${quota.remaining} remaining)`,
+      { code: 'INSUFFICIENT_QUOTA', periodEnd: quota.periodEnd ?? undefined }
+    );
+  }
+
+  const images: (GenerateImageResult | null)[] = new Array(count).fill(null);
+  const errors: { index: number; error: AIError }[] = [];
+  let nextIndex = 0;
+  let completed = 0;
+  let quotaError: AIError | undefined;
+
+  const variationPrompt = (index: number) =>
+    seedVariation && count > 1
+      ? `${prompt}\n\n(Variation ${index + 1} of ${count}: make this one clearly distinct from the others.)`
+      : prompt;
+
+  const worker = async () => {
+    while (nextIndex < count && !imageOptions.signal?.aborted) {
+      const index = nextIndex++;
+      let image: GenerateImageResult | undefined;
+      let error: AIError | undefined = quotaError;
+
+      // Once the quota runs out mid-batch, fail the rest without spending requests
+      if (!error) {
+        try {
+          image = await generateImage(variationPrompt(index), imageOptions);
+          images[index] = image;
+        } catch (e) {
+          if (e instanceof AIAbortedError) return;
+          error = e instanceof AIError ? e : new AIError(String(e), { code: 'UNKNOWN' });
+          if (error instanceof AIQuotaExceededError) {
+            quotaError = error;
+          }
+        }
+      }
+
+      if (error) {
+        errors.push({ index, error });
+      }
+      completed++;
+      onProgress?.({ index, image, error, completed, total: count });
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, count) }, worker));
+
+  if (imageOptions.signal?.aborted) {
+    throw new AIAbortedError();
+  }
+
+  errors.sort((a, b) => a.index - b.index);
+  return { images, errors, remainingRequests: getAIQuota().remaining };
+}
+
+// ============================================================================
+// SAVED IMAGES
+// ============================================================================
+
+/**
+ * An AI-generated image stored in the app's document directory
+ */
+export interface SavedImage {
+  /** Unique ID used to delete or export the image */
+  id: string;
+  /** file:// URI, usable directly as an Image source */
+  uri: string;
+  /** MIME type of the stored file (e.g. 'image/png') */
+  mimeType: string;
+  /** File size in bytes */
+  size: number;
+  /** The prompt that produced the image */
+  prompt: string;
+  /** Aspect ratio the image was generated with, if known */
+  aspectRatio?: ImageAspectRatio;
+  /** When the image was saved (ISO date string) */
+  createdAt: string;
+}
+
+/**
+ * Details stored alongside a saved image
+ */
+export interface SaveImageMetadata {
+  /** The prompt that produced the image */
+  prompt: string;
+  /** Aspect ratio the image was generated with */
+  aspectRatio?: ImageAspectRatio;
+}
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+};
+
+function getImagesDirectory(): Directory {
+  const directory = new Directory(Paths.document, 'appily-ai-images');
+  if (!directory.exists) {
+    directory.create({ intermediates: true });
+  }
+  return directory;
+}
+
+function getIndexFile(): File {
+  return new File(getImagesDirectory(), 'index.json');
+}
+
+function readIndex(): SavedImage[] {
+  const index = getIndexFile();
+  if (!index.exists) return [];
+
+  try {
+    return JSON.parse(index.textSync()) as SavedImage[];
+  } catch (e) {
+    console.warn('[Appily] Saved image index is unreadable, starting a new one:', e);
+    return [];
+  }
+}
+
+function writeIndex(images: SavedImage[]) {
+  getIndexFile().write(JSON.stringify(images));
+}
+
+/**
+ * Save a generated image to the device instead of keeping the data URL in memory
+ *
+ * The image is written to the app's document directory (kept across launches
+ * and app updates) and recorded in a gallery index with its prompt.
+ *
+ * @param image - Result of generateImage/editImage, or a data URL
+ * @param metadata - The prompt and aspect ratio to remember with the image
+ * @returns The saved image with its file URI
+ *
+ * @example
+ * const result = await generateImage('A watercolor lighthouse', { aspectRatio: '3:4' });
+ * const saved = await saveGeneratedImage(result, { prompt: 'A watercolor lighthouse', aspectRatio: '3:4' });
+ *
+ * <Image source={{ uri: saved.uri }} style={{ width: 240, height: 320 }} />
+ */
+export async function saveGeneratedImage(
+  image: GenerateImageResult | string,
+  metadata: SaveImageMetadata
+): Promise<SavedImage> {
+  const dataUrl = typeof image === 'string' ? image : image.imageBase64;
+  const match = dataUrl.match(/^data:([^;]+);base64,(.*)$/);
+  const mimeType = match?.[1] || 'image/png';
+  const base64 = match?.[2] || dataUrl;
+
+  const id = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+  const file = new File(getImagesDirectory(), `${id}.${IMAGE_EXTENSIONS[mimeType] || 'png'}`);
+  file.write(base64, { encoding: 'base64' });
+
+  const saved: SavedImage = {
+    id,
+    uri: file.uri,
+    mimeType,
+    size: file.size,
+    prompt: metadata.prompt,
+    aspectRatio: metadata.aspectRatio,
+    createdAt: new Date().toISOString(),
+  };
+
+  writeIndex([saved, ...readIndex()]);
+  return saved;
+}
+
+/**
+ * List saved images, newest first
+ *
+ * @example
+ * const gallery = await listSavedImages();
+ * <FlatList data={gallery} renderItem={({ item }) => <Image source={{ uri: item.uri }} />} />
+ */
+export async function listSavedImages(): Promise<SavedImage[]> {
+  // Drop entries whose file was removed outside of this module
+  const images = readIndex();
+  const existing = images.filter((image) => new File(image.uri).exists);
+  if (existing.length !== images.length) {
+    writeIndex(existing);
+  }
+  return existing;
+}
+
+/**
+ * Delete a saved image and remove it from the gallery index
+ */
+export async function deleteSavedImage(id: string): Promise<void> {
+  const images = readIndex();
+  const image = images.find((item) => item.id === id);
+  if (!image) return;
+
+  const file = new File(image.uri);
+  if (file.exists) {
+    file.delete();
+  }
+  writeIndex(images.filter((item) => item.id !== id));
+}
+
+/**
+ * Read a saved image back as a data URL, e.g. to pass it to editImage again
+ *
+ * @example
+ * const source = await exportSavedImage(saved.id);
+ * const edited = await editImage(source, 'Make it night time');
+ */
+export async function exportSavedImage(id: string): Promise<string> {
+  const image = readIndex().find((item) => item.id === id);
+  if (!image) {
+    throw new AIInvalidArgumentError(`Saved image not found: ${id}`);
+  }
+
+  const base64 = await new File(image.uri).base64();
+  return `data:${image.mimeType};base64,${base64}`;
+}
+
+// ============================================================================
+// CHAT (GPT-5 mini)
+// ============================================================================
+
+/**
+ * Who wrote a chat message
+ */
+export type ChatRole = 'system' | 'user' | 'assistant' | 'tool';
+
+/**
+ * A single turn in a conversation
+ */
+export interface ChatMessage {
+  /** Who wrote the message */
+  role: ChatRole;
+  /** The message text */
+  content: string;
+  /** Images for vision turns: base64 (with or without data: prefix) or http(s) URLs */
+  images?: string[];
+  /** Tools the assistant asked to run (see runWithTools) */
+  toolCalls?: ToolCall[];
+  /** For 'tool' messages: the ID of the tool call this result answers */
+  toolCallId?: string;
+}
+
+/**
+ * Options for a chat request
+ */
+export interface ChatOptions extends AIRequestOptions, ModelOptions {
+  /** Approximate token budget for the history sent to the AI (default: 8000) */
+  maxHistoryTokens?: number;
+}
+
+/**
+ * Response from a chat request
+ */
+export interface ChatResult {
+  /** The assistant's reply */
+  message: ChatMessage;
+  /** The full history passed in, with the reply appended */
+  messages: ChatMessage[];
+  /** Number of AI requests remaining this period */
+  remainingRequests: number;
+}
+
+const DEFAULT_MAX_HISTORY_TOKENS = 8000;
+
+// Rough estimates - the backend does the exact accounting
+const CHARS_PER_TOKEN = 4;
+const TOKENS_PER_IMAGE = 765;
+const TOKENS_PER_MESSAGE = 4;
+
+/**
+ * Estimate how many tokens a message uses
+ */
+function estimateMessageTokens(message: ChatMessage): number {
+  return (
+    TOKENS_PER_MESSAGE +
+    Math.ceil(message.content.length / CHARS_PER_TOKEN) +
+    (message.images?.length || 0) * TOKENS_PER_IMAGE
+  );
+}
+
+/**
+ * Drop the oldest turns until the history fits the token budget
+ *
+ * System messages and the latest message are always kept, even if they
+ * alone exceed the budget.
+ */
+function trimHistory(messages: ChatMessage[], maxTokens: number): ChatMessage[] {
+  const latest = messages[messages.length - 1];
+  let total = messages.reduce((sum, message) => sum + estimateMessageTokens(message), 0);
+
+  const dropped = new Set<ChatMessage>();
+  for (const message of messages) {
+    if (total <= maxTokens) break;
+    if (message.role === 'system' || message === latest) continue;
+    dropped.add(message);
+    total -= estimateMessageTokens(message);
+  }
+
+  if (dropped.size === 0) {
+    return messages;
+  }
+
+  // Also drop the assistant replies and tool results the dropped turns leave
+  // behind, so the conversation doesn't start with an orphaned answer
+  let afterDropped = false;
+  return messages.filter((message) => {
+    if (message.role === 'system') return true;
+    if (dropped.has(message)) {
+      afterDropped = true;
+      return false;
+    }
+    if (afterDropped && message !== latest && (message.role === 'assistant' || message.role === 'tool')) {
+      return false;
+    }
+    afterDropped = false;
+    return true;
+  });
+}
+
+/**
+ * Add the response language instruction (if any) to the first system message,
+ * or as a new system message when the conversation has none
+ */
+function withLanguageMessage(messages: ChatMessage[], options?: ModelOptions): ChatMessage[] {
+  const instruction = withLanguage('', options);
+  if (!instruction) {
+    return messages;
+  }
+
+  const index = messages.findIndex((message) => message.role === 'system');
+  if (index === -1) {
+    return [{ role: 'system', content: instruction }, ...messages];
+  }
+  return messages.map((message, i) =>
+    i === index ? { ...message, content: withLanguage(message.content, options) } : message
+  );
+}
+
+/**
+ * Convert an image string into the shape the API expects
+ */
+function toAPIImage(image: string): { imageUrl: string } | { imageBase64: string } {
+  if (/^https?:\/\//.test(image)) {
+    return { imageUrl: image };
+  }
+
+  // Remove data: prefix if present (the API handles both formats)
+  return { imageBase64: image.includes(',') ? image.split(',')[1] : image };
+}
+
+/**
+ * Convert a chat message into the shape the API expects
+ */
+function toAPIMessage(message: ChatMessage) {
+  return {
+    role: message.role,
+    content: message.content,
+    images: message.images?.map(toAPIImage),
+    toolCalls: message.toolCalls,
+    toolCallId: message.toolCallId,
+  };
+}
+
+/**
+ * Continue a conversation using AI (GPT-5 mini)
+ *
+ * Send the whole conversation so far and get the assistant's next reply.
+ * Older turns are dropped automatically when the history gets too long.
+ *
+ * @param messages - The conversation so far, oldest first
+ * @param options - Optional model parameters, history token budget, abort signal, timeout and retry settings
+ * @returns The reply, the updated history and remaining quota
+ *
+ * @example
+ * // Keep the conversation in state and send it on every turn
+ * const [messages, setMessages] = useState<ChatMessage[]>([
+ *   { role: 'system', content: 'You are a friendly cooking assistant' },
+ * ]);
+ *
+ * const send = async (text: string) => {
+ *   const result = await chat([...messages, { role: 'user', content: text }]);
+ *   setMessages(result.messages);
+ * };
+ *
+ * @example
+ * // Ask about a photo mid-conversation
+ * const result = await chat([
+ *   ...messages,
+ *   { role: 'user', content: 'What can I cook with these?', images: [fridgePhotoBase64] },
+ * ]);
+ */
+export async function chat(
+  messages: ChatMessage[],
+  options?: ChatOptions
+): Promise<ChatResult> {
+  if (messages.length === 0) {
+    throw new AIInvalidArgumentError('Chat requires at least one message');
+  }
+
+  const history = trimHistory(messages, options?.maxHistoryTokens ?? DEFAULT_MAX_HISTORY_TOKENS);
+
+  const data = await requestAI<{ text: string; remainingRequests: number }>(
+    '/api/ai/generate',
+    {
+      messages: withLanguageMessage(history, options).map(toAPIMessage),
+      ...getModelParams(options),
+    },
+    'AI chat failed',
+    options
+  );
+
+  const message: ChatMessage = { role: 'assistant', content: data.text };
+
+  return {
+    message,
+    messages: [...messages, message],
+    remainingRequests: data.remainingRequests,
+  };
+}
+
+/**
+ * Continue a conversation using AI (GPT-5 mini), receiving the reply piece by piece
+ *
+ * Works like chat, but calls `onToken` as soon as each chunk of the reply
+ * arrives so the answer appears while it is being written.
+ *
+ * @param messages - The conversation so far, oldest first
+ * @param onToken - Called with each new chunk and the full reply so far
+ * @param options - Optional model parameters, history token budget, abort signal, timeout and retry settings
+ * @returns The complete reply, the updated history and remaining quota once the stream ends
+ *
+ * @example
+ * const [reply, setReply] = useState('');
+ *
+ * const result = await streamChat(
+ *   [...messages, { role: 'user', content: text }],
+ *   (delta, text) => setReply(text)
+ * );
+ * setMessages(result.messages);
+ */
+export async function streamChat(
+  messages: ChatMessage[],
+  onToken: TextStreamCallback,
+  options?: ChatOptions
+): Promise<ChatResult> {
+  if (messages.length === 0) {
+    throw new AIInvalidArgumentError('Chat requires at least one message');
+  }
+
+  const history = trimHistory(messages, options?.maxHistoryTokens ?? DEFAULT_MAX_HISTORY_TOKENS);
+
+  const data = await streamGeneration(
+    {
+      messages: withLanguageMessage(history, options).map(toAPIMessage),
+      ...getModelParams(options),
+    },
+    onToken,
+    'AI chat failed',
+    options
+  );
+
+  const message: ChatMessage = { role: 'assistant', content: data.text };
+
+  return {
+    message,
+    messages: [...messages, message],
+    remainingRequests: data.remainingRequests,
+  };
+}
+
+// ============================================================================
+// STRUCTURED OUTPUT (GPT-5 mini)
+// ============================================================================
+
+/**
+ * A JSON Schema describing the shape of the data you expect back
+ *
+ * Supports the commonly used subset of JSON Schema: types, object properties,
+ * required keys, array items, enums and numeric/length bounds.
+ */
+export interface JSONSchema {
+  type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+  /** Human readable hint for the AI about what this value means */
+  description?: string;
+  /** Allowed values */
+  enum?: (string | number | boolean | null)[];
+  /** Schemas for each key of an object */
+  properties?: Record<string, JSONSchema>;
+  /** Keys that must be present on an object */
+  required?: string[];
+  /** Whether keys not listed in `properties` are allowed (default: true) */
+  additionalProperties?: boolean;
+  /** Schema for every item of an array */
+  items?: JSONSchema;
+  minItems?: number;
+  maxItems?: number;
+  minLength?: number;
+  maxLength?: number;
+  minimum?: number;
+  maximum?: number;
+}
+
+/**
+ * Options for structured output generation
+ */
+export interface GenerateObjectOptions extends AIRequestOptions, ModelOptions {
+  /** Optional context/instructions for the AI */
+  systemPrompt?: string;
+  /** How many times to re-ask the AI after an invalid reply (default: 2) */
+  maxRetries?: number;
+}
+
+/**
+ * Response from structured output generation
+ */
+export interface GenerateObjectResult<T> {
+  /** The parsed and validated object */
+  object: T;
+  /** Number of AI requests remaining this period */
+  remainingRequests: number;
+}
+
+/**
+ * Thrown by generateObject when the AI never produced data matching the schema
+ */
+export class ObjectValidationError extends AIError {
+  /** Every problem found in the last reply, e.g. "$.servings: expected number" */
+  readonly issues: string[];
+  /** The last raw reply from the AI */
+  readonly text: string;
+  /** How many replies were requested before giving up */
+  readonly attempts: number;
+
+  constructor(issues: string[], text: string, attempts: number) {
+    super(`AI response did not match schema: ${issues.join('; ')}`, { code: 'VALIDATION_FAILED' });
+    this.name = 'ObjectValidationError';
+    this.issues = issues;
+    this.text = text;
+    this.attempts = attempts;
+  }
+}
+
+/**
+ * Check a value against a schema and list every mismatch
+ */
+function validateSchema(value: unknown, schema: JSONSchema, path = '$'): string[] {
+  const issues: string[] = [];
+
+  if (schema.enum && !schema.enum.some((allowed) => allowed === value)) {
+    issues.push(`${path}: expected one of ${schema.enum.map((v) => JSON.stringify(v)).join(', ')}`);
+    return issues;
+  }
+
+  switch (schema.type) {
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        issues.push(`${path}: expected object`);
+        break;
+      }
+      const record = value as Record<string, unknown>;
+      for (const key of schema.required || []) {
+        if (!(key in record)) {
+          issues.push(`${path}.${key}: is required`);
+        }
+      }
+      for (const [key, item] of Object.entries(record)) {
+        const propertySchema = schema.properties?.[key];
+        if (propertySchema) {
+          issues.push(...validateSchema(item, propertySchema, `${path}.${key}`));
+        } else if (schema.additionalProperties === false) {
+          issues.push(`${path}.${key}: is not allowed`);
+        }
+      }
+      break;
+    }
+    case 'array': {
+      if (!Array.isArray(value)) {
+        issues.push(`${path}: expected array`);
+        break;
+      }
+      if (schema.minItems !== undefined && value.length < schema.minItems) {
+        issues.push(`${path}: expected at least ${schema.minItems} items`);
+      }
+      if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+        issues.push(`${path}: expected at most ${schema.maxItems} items`);
+      }
+      if (schema.items) {
+        value.forEach((item, index) => {
+          issues.push(...validateSchema(item, schema.items!, `${path}[${index}]`));
+        });
+      }
+      break;
+    }
+    case 'string': {
+      if (typeof value !== 'string') {
+        issues.push(`${path}: expected string`);
+        break;
+      }
+      if (schema.minLength !== undefined && value.length < schema.minLength) {
+        issues.push(`${path}: expected at least ${schema.minLength} characters`);
+      }
+      if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+        issues.push(`${path}: expected at most ${schema.maxLength} characters`);
+      }
+      break;
+    }
+    case 'number':
+    case 'integer': {
+      if (typeof value !== 'number' || Number.isNaN(value)) {
+        issues.push(`${path}: expected ${schema.type}`);
+        break;
+      }
+      if (schema.type === 'integer' && !Number.isInteger(value)) {
+        issues.push(`${path}: expected integer`);
+      }
+      if (schema.minimum !== undefined && value < schema.minimum) {
+        issues.push(`${path}: expected >= ${schema.minimum}`);
+      }
+      if (schema.maximum !== undefined && value > schema.maximum) {
+        issues.push(`${path}: expected <= ${schema.maximum}`);
+      }
+      break;
+    }
+    case 'boolean':
+      if (typeof value !== 'boolean') {
+        issues.push(`${path}: expected boolean`);
+      }
+      break;
+    case 'null':
+      if (value !== null) {
+        issues.push(`${path}: expected null`);
+      }
+      break;
+  }
+
+  return issues;
+}
+
+/**
+ * Pull the JSON value out of a reply that may be wrapped in prose or ``` fences
+ */
+function extractJSON(text: string): unknown {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const candidate = (fenced ? fenced[1] : text).trim();
+
+  const start = candidate.search(/[[{]/);
+  const end = Math.max(candidate.lastIndexOf('}'), candidate.lastIndexOf(']'));
+  if (start === -1 || end < start) {
+    return JSON.parse(candidate);
+  }
+
+  return JSON.parse(candidate.slice(start, end + 1));
+}
+
+/**
+ * Generate structured data using AI (GPT-5 mini)
+ *
+ * Describe the shape you want with a JSON Schema and get back a parsed,
+ * validated object. If the AI replies with invalid JSON or data that doesn't
+ * match the schema, it is asked again with the list of problems.
+ *
+ * @param prompt - What you want the AI to generate
+ * @param schema - JSON Schema the result must match
+ * @param options - Optional system prompt, validation retry limit, model parameters and request settings
+ * @returns The validated object and remaining quota
+ * @throws ObjectValidationError if no valid reply was produced within the retry limit
+ *
+ * @example
+ * interface Recipe {
+ *   title: string;
+ *   servings: number;
+ *   ingredients: string[];
+ * }
+ *
+ * const { object: recipe } = await generateObject<Recipe>(
+ *   'A quick vegetarian pasta recipe',
+ *   {
+ *     type: 'object',
+ *     properties: {
+ *       title: { type: 'string' },
+ *       servings: { type: 'integer', minimum: 1 },
+ *       ingredients: { type: 'array', items: { type: 'string' }, minItems: 1 },
+ *     },
+ *     required: ['title', 'servings', 'ingredients'],
+ *   }
+ * );
+ *
+ * @example
+ * // Handle a reply that never matched the schema
+ * try {
+ *   const { object } = await generateObject<Quiz>(prompt, quizSchema);
+ * } catch (error) {
+ *   if (error instanceof ObjectValidationError) {
+ *     console.log(error.issues);
+ *   }
+ * }
+ */
+export async function generateObject<T>(
+  prompt: string,
+  schema: JSONSchema,
+  options?: GenerateObjectOptions
+): Promise<GenerateObjectResult<T>> {
+  const maxAttempts = (options?.maxRetries ?? 2) + 1;
+  const requestOptions: ChatOptions = {
+    signal: options?.signal,
+    timeoutMs: options?.timeoutMs,
+    retries: options?.retries,
+    cacheTtlMs: options?.cacheTtlMs,
+    maxTokens: options?.maxTokens,
+    temperature: options?.temperature,
+    stopSequences: options?.stopSequences,
+    language: options?.language,
+  };
+
+  const instructions = [
+    options?.systemPrompt,
+    'Reply with JSON only - no explanations and no markdown.',
+    `The JSON must match this JSON Schema:\n${JSON.stringify(schema)}`,
+  ]
+    .filter(Boolean)
+    .join('\n\n');
+
+  let messages: ChatMessage[] = [
+    { role: 'system', content: instructions },
+    { role: 'user', content: prompt },
+  ];
+  let issues: string[] = [];
+  let text = '';
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const result = await chat(messages, requestOptions);
+    text = result.message.content;
+
+    let value: unknown;
+    try {
+      value = extractJSON(text);
+      issues = validateSchema(value, schema);
+    } catch (e) {
+      issues = [`invalid JSON (${e instanceof Error ? e.message : String(e)})`];
+    }
+
+    if (issues.length === 0) {
+      return { object: value as T, remainingRequests: result.remainingRequests };
+    }
+
+    // Show the AI what was wrong with its reply and ask again
+    messages = [
+      ...result.messages,
+      {
+        role: 'user',
+        content: `That reply was not valid:\n- ${issues.join('\n- ')}\n\nReply again with corrected JSON only.`,
+      },
+    ];
+  }
+
+  throw new ObjectValidationError(issues, text, maxAttempts);
+}
+
+// ============================================================================
+// TOOLS (GPT-5 mini)
+// ============================================================================
+
+/**
+ * A function in your app that the AI can decide to call
+ */
+export interface AITool<TArgs = Record<string, unknown>> {
+  /** Unique name the AI uses to call the tool, e.g. 'add_todo' */
+  name: string;
+  /** What the tool does and when to use it - the AI reads this */
+  description: string;
+  /** JSON Schema of the arguments object (should be `type: 'object'`) */
+  parameters: JSONSchema;
+  /** Runs the tool; the returned value is sent back to the AI */
+  handler(args: TArgs): unknown | Promise<unknown>;
+}
+
+/**
+ * A request from the AI to run one of the tools
+ */
+export interface ToolCall {
+  /** ID linking the call to its result */
+  id: string;
+  /** Name of the tool to run */
+  name: string;
+  /** Arguments for the tool */
+  arguments: Record<string, unknown>;
+}
+
+/**
+ * A tool call and what came of it
+ */
+export interface ToolInvocation {
+  call: ToolCall;
+  /** What the handler returned, if it ran successfully */
+  result?: unknown;
+  /** Why the tool didn't produce a result (invalid arguments, handler error, declined) */
+  error?: string;
+}
+
+/**
+ * Options for runWithTools
+ */
+export interface RunWithToolsOptions extends ChatOptions {
+  /** Maximum AI round-trips before giving up (default: 5) */
+  maxSteps?: number;
+  /** Called before a tool runs - return false to decline it (e.g. after asking the user) */
+  onToolCall?: (call: ToolCall) => boolean | Promise<boolean>;
+  /** Called after each tool call with its result or error, e.g. to show it in the UI */
+  onToolResult?: (invocation: ToolInvocation) => void;
+}
+
+/**
+ * Response from runWithTools
+ */
+export interface RunWithToolsResult extends ChatResult {
+  /** Every tool call made while producing the answer, in order */
+  toolInvocations: ToolInvocation[];
+}
+
+/**
+ * Define a tool with typed arguments
+ *
+ * @example
+ * const addTodo = defineTool<{ title: string; dueDate?: string }>({
+ *   name: 'add_todo',
+ *   description: 'Add an item to the user\'s todo list',
+ *   parameters: {
+ *     type: 'object',
+ *     properties: {
+ *       title: { type: 'string' },
+ *       dueDate: { type: 'string', description: 'ISO date, if the user gave one' },
+ *     },
+ *     required: ['title'],
+ *   },
+ *   handler: async ({ title, dueDate }) => {
+ *     const todo = await todos.add(title, dueDate);
+ *     return { id: todo.id };
+ *   },
+ * });
+ */
+export function defineTool<TArgs>(tool: AITool<TArgs>): AITool<TArgs> {
+  return tool;
+}
+
+/**
+ * Run a single tool call and describe the outcome
+ */
+async function invokeTool(
+  call: ToolCall,
+  tools: AITool[],
+  onToolCall: RunWithToolsOptions['onToolCall']
+): Promise<ToolInvocation> {
+  const tool = tools.find((item) => item.name === call.name);
+  if (!tool) {
+    return { call, error: `Unknown tool: ${call.name}` };
+  }
+
+  const issues = validateSchema(call.arguments, tool.parameters);
+  if (issues.length > 0) {
+    return { call, error: `Invalid arguments: ${issues.join('; ')}` };
+  }
+
+  if (onToolCall && !(await onToolCall(call))) {
+    return { call, error: 'The user declined this action' };
+  }
+
+  try {
+    return { call, result: await tool.handler(call.arguments) };
+  } catch (e) {
+    return { call, error: e instanceof Error ? e.message : String(e) };
+  }
+}
+
+/**
+ * Continue a conversation, letting the AI call tools in your app (GPT-5 mini)
+ *
+ * The AI can ask to run any of the tools; each call is validated against its
+ * schema, run, and its result sent back until the AI gives a final answer.
+ * Use `onToolCall` to confirm actions with the user and `onToolResult` to show
+ * what happened.
+ *
+ * @param messages - The conversation so far, oldest first
+ * @param tools - Tools the AI may call
+ * @param options - Step limit, tool callbacks and chat/request settings
+ * @returns The final reply, the history including tool calls and results, and every tool invocation
+ *
+ * @example
+ * const result = await runWithTools(
+ *   [...messages, { role: 'user', content: 'Remind me to buy milk tomorrow' }],
+ *   [addTodo, listTodos],
+ *   {
+ *     onToolCall: (call) => confirmWithUser(`Run ${call.name}?`),
+ *     onToolResult: ({ call, error }) => console.log(call.name, error ?? 'done'),
+ *   }
+ * );
+ * setMessages(result.messages);
+ */
+export async function runWithTools(
+  messages: ChatMessage[],
+  tools: AITool[],
+  options?: RunWithToolsOptions
+): Promise<RunWithToolsResult> {
+  if (messages.length === 0) {
+    throw new AIInvalidArgumentError('Chat requires at least one message');
+  }
+
+  const maxSteps = options?.maxSteps ?? 5;
+  const toolDefinitions = tools.map(({ name, description, parameters }) => ({
+    name,
+    description,
+    parameters,
+  }));
+  const toolInvocations: ToolInvocation[] = [];
+  let history = messages;
+
+  for (let step = 0; step < maxSteps; step++) {
+    const trimmed = trimHistory(history, options?.maxHistoryTokens ?? DEFAULT_MAX_HISTORY_TOKENS);
+
+    const data = await requestAI<{
+      text: string;
+      toolCalls?: { id: string; name: string; arguments: Record<string, unknown> | string }[];
+      remainingRequests: number;
+    }>(
+      '/api/ai/generate',
+      {
+        messages: withLanguageMessage(trimmed, options).map(toAPIMessage),
+        tools: toolDefinitions,
+        ...getModelParams(options),
+      },
+      'AI chat failed',
+      options
+    );
+
+    // Some models send arguments as a JSON string
+    const toolCalls: ToolCall[] = (data.toolCalls || []).map((call) => ({
+      id: call.id,
+      name: call.name,
+      arguments: typeof call.arguments === 'string' ? safeParseArguments(call.arguments) : call.arguments,
+    }));
+
+    const message: ChatMessage = {
+      role: 'assistant',
+      content: data.text || '',
+      toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+    };
+    history = [...history, message];
+
+    if (toolCalls.length === 0) {
+      return { message, messages: history, remainingRequests: data.remainingRequests, toolInvocations };
+    }
+
+    // Run the tools one after another - later calls may depend on earlier ones
+    for (const call of toolCalls) {
+      const invocation = await invokeTool(call, tools, options?.onToolCall);
+      toolInvocations.push(invocation);
+      options?.onToolResult?.(invocation);
+
+      history = [
+        ...history,
+        {
+          role: 'tool',
+          toolCallId: call.id,
+          content: invocation.error
+            ? JSON.stringify({ error: invocation.error })
+            : JSON.stringify(invocation.result ?? null),
+        },
+      ];
+    }
+  }
+
+  throw new AIError(`AI did not finish after ${maxSteps} tool steps`, { code: 'TOOL_STEP_LIMIT' });
+}
+
+/**
+ * Parse tool arguments sent as a JSON string, treating garbage as no arguments
+ */
+function safeParseArguments(value: string): Record<string, unknown> {
+  try {
+    const parsed = JSON.parse(value);
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    return {};
+  }
+}
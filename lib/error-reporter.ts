@@ -5,11 +5,31 @@
  * It captures JS exceptions, React render errors, and unhandled promise rejections,
  * then sends them to the Appily API for display in the chat interface.
  *
+ * Errors the app catches itself can be reported with captureException, and
+ * notable events with captureMessage.
+ *
+ * Reports are queued on disk and delivered from there, so errors raised while
+ * offline or right before a crash are sent once the network is back or on the
+ * next launch.
+ *
+ * Stack frames point into the JS bundle. In development they are mapped back to
+ * source files through Metro (see lib/symbolicate.ts); for release builds, run
+ * scripts/symbolicate.js with the bundle's source map.
+ *
  * Configuration is injected via app.json's extra field during project setup.
  */
 
 import Constants from 'expo-constants';
-import { Platform } from 'react-native';
+import { File, Paths } from 'expo-file-system';
+import * as Network from 'expo-network';
+import { AppState, Platform } from 'react-native';
+
+import { getFirstInAppFrame, parseStack, type StackFrame } from '@/lib/stack-trace';
+
+/**
+ * How serious a reported error or message is
+ */
+export type SeverityLevel = 'fatal' | 'error' | 'warning' | 'info' | 'debug';
 
 /**
  * Structure of a runtime error to be reported
@@ -21,7 +41,41 @@ export interface RuntimeError {
   filename?: string;
   lineNumber?: number;
   columnNumber?: number;
-  errorType: 'js_error' | 'react_error' | 'unhandled_promise';
+  /** Parsed stack, innermost call first (filled in from `stack` when missing) */
+  frames?: StackFrame[];
+  /** 'handled_error' is used by captureException and captureMessage */
+  errorType: 'js_error' | 'react_error' | 'unhandled_promise' | 'handled_error';
+  /** Severity (handled errors and messages only) */
+  level?: SeverityLevel;
+  /** Short values to filter reports by, e.g. { feature: 'checkout' } */
+  tags?: Record<string, string>;
+  /** Any extra details that help explain the error */
+  extra?: Record<string, unknown>;
+  timestamp: string;
+}
+
+/**
+ * Extra information for captureException and captureMessage
+ */
+export interface CaptureContext {
+  /** Severity (default: 'error' for exceptions, 'info' for messages) */
+  level?: SeverityLevel;
+  /** Short values to filter reports by, e.g. { feature: 'checkout' } */
+  tags?: Record<string, string>;
+  /** Any extra details that help explain the error, e.g. the input that failed to parse */
+  extra?: Record<string, unknown>;
+}
+
+/**
+ * Something that happened before an error, e.g. a screen change or an AI call
+ */
+export interface Breadcrumb {
+  /** Where it came from: 'navigation', 'ai', 'console', 'app_state', or your own */
+  category: string;
+  message: string;
+  level: 'info' | 'warning' | 'error';
+  /** Small key-value details, e.g. { latencyMs: 840 } */
+  data?: Record<string, string | number | boolean | null>;
   timestamp: string;
 }
 
@@ -35,6 +89,8 @@ interface ErrorReportPayload {
     platform: string;
     version: string;
   };
+  /** The last breadcrumbs before the error, oldest first */
+  breadcrumbs: Breadcrumb[];
 }
 
 /**
@@ -46,6 +102,56 @@ const CONFIG = {
   apiEndpoint: (Constants.expoConfig?.extra?.appilyApiUrl as string) || 'https://www.appily.dev',
 };
 
+/**
+ * A report waiting to be delivered
+ */
+interface QueuedReport {
+  id: string;
+  /** When the report was queued (ms timestamp) */
+  queuedAt: number;
+  payload: ErrorReportPayload;
+  /** Whether the pre-send hook already ran (so retries don't run it again) */
+  prepared?: boolean;
+}
+
+/**
+ * Called with each error right before it is sent
+ *
+ * Return the error (changed or not) to send it, or null to drop it.
+ */
+export type BeforeSendHook = (
+  error: RuntimeError
+) => RuntimeError | null | Promise<RuntimeError | null>;
+
+// Queue limits - a crash loop must not fill the disk or flood the API
+const MAX_QUEUED_REPORTS = 50;
+// Reports read from the queue (and run through the pre-send hook) at a time
+const BATCH_SIZE = 10;
+const MAX_REPORT_AGE_MS = 24 * 60 * 60 * 1000; // 1 day
+
+// Backoff after a failed delivery: 5s, 10s, 20s, ... up to 5 minutes
+const RETRY_BASE_DELAY_MS = 5000;
+const RETRY_MAX_DELAY_MS = 5 * 60 * 1000;
+
+// Loaded from disk on first use
+let queue: QueuedReport[] | null = null;
+let flushPromise: Promise<void> | null = null;
+let failedFlushes = 0;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+let queueStarted = false;
+let beforeSend: BeforeSendHook | null = null;
+
+// Ring buffer of recent breadcrumbs, oldest first
+const MAX_BREADCRUMBS = 30;
+const MAX_BREADCRUMB_MESSAGE_LENGTH = 300;
+const breadcrumbs: Breadcrumb[] = [];
+let breadcrumbsStarted = false;
+
+// Limits for tags and extra context on handled errors
+const MAX_TAGS = 20;
+const MAX_TAG_LENGTH = 200;
+const MAX_EXTRA_LENGTH = 5000;
+
 // Deduplication state to prevent flooding with identical errors
 let lastErrorHash = '';
 let lastErrorTime = 0;
@@ -58,36 +164,297 @@ function hashError(error: RuntimeError): string {
   return `${error.message}-${error.filename || 'unknown'}-${error.lineNumber || 0}`;
 }
 
+function getQueueFile(): File {
+  return new File(Paths.document, 'appily-error-queue.json');
+}
+
 /**
- * Extract filename and line number from an error stack trace
+ * Read the queue left by earlier launches, dropping reports that are too old
+ */
+function loadQueue(): QueuedReport[] {
+  if (queue) return queue;
+
+  queue = [];
+  try {
+    const file = getQueueFile();
+    if (file.exists) {
+      const cutoff = Date.now() - MAX_REPORT_AGE_MS;
+      queue = (JSON.parse(file.textSync()) as QueuedReport[]).filter(
+        (report) => report.queuedAt > cutoff
+      );
+    }
+  } catch (e) {
+    console.warn('[Appily] Error report queue is unreadable, starting a new one:', e);
+  }
+  return queue;
+}
+
+/**
+ * Write the queue to disk
+ *
+ * This is synchronous on purpose: a fatal error can kill the process right
+ * after it is reported, and the report must be on disk by then.
+ */
+function saveQueue(reports: QueuedReport[]) {
+  queue = reports;
+  try {
+    getQueueFile().write(JSON.stringify(reports));
+  } catch (e) {
+    console.warn('[Appily] Failed to save error report queue:', e);
+  }
+}
+
+/**
+ * Send one queued report
+ *
+ * @returns 'sent', 'retry' for network/server problems, or 'rejected' when the
+ * API refused the report (it would be refused again, so it is dropped)
+ */
+function sendReport(report: QueuedReport): Promise<'sent' | 'retry' | 'rejected'> {
+  const url = `${CONFIG.apiEndpoint}/api/errors/report`;
+
+  return new Promise((resolve) => {
+    try {
+      // Use XMLHttpRequest for more reliable delivery during error handling
+      // fetch() can be interrupted by the error handler, but XHR is more resilient
+      const xhr = new XMLHttpRequest();
+      xhr.open('POST', url, true);
+      xhr.setRequestHeader('Content-Type', 'application/json');
+
+      xhr.onload = () => {
+        if (xhr.status >= 200 && xhr.status < 300) {
+          resolve('sent');
+        } else if (
+          // 404/405 mean the endpoint isn't there (misconfigured URL or an
+          // outage) - that says nothing about the report, so keep it
+          xhr.status === 404 ||
+          xhr.status === 405 ||
+          xhr.status === 408 ||
+          xhr.status === 429 ||
+          xhr.status >= 500
+        ) {
+          resolve('retry');
+        } else {
+          console.warn(`[Appily] Error report rejected (HTTP ${xhr.status})`);
+          resolve('rejected');
+        }
+      };
+      xhr.onerror = () => {
+        console.warn('[Appily] Error report failed (network error)');
+        resolve('retry');
+      };
+
+      xhr.send(JSON.stringify(report.payload));
+    } catch (e) {
+      // Silently fail - don't break the app if error reporting fails
+      console.warn('[Appily] Error reporting failed:', e);
+      resolve('retry');
+    }
+  });
+}
+
+function scheduleRetry() {
+  if (retryTimer) return;
+
+  const delay = Math.min(RETRY_BASE_DELAY_MS * 2 ** (failedFlushes - 1), RETRY_MAX_DELAY_MS);
+  // Jitter so many devices coming back online don't retry in lockstep
+  retryTimer = setTimeout(() => {
+    retryTimer = null;
+    flushErrorReports();
+  }, delay * (0.5 + Math.random() * 0.5));
+}
+
+/**
+ * Run the pre-send hook on reports that haven't been through it yet
+ *
+ * Results are written back to the queue; reports the hook dropped are removed.
+ */
+async function prepareReports(reports: QueuedReport[]): Promise<QueuedReport[]> {
+  const hook = beforeSend;
+  if (!hook) return reports;
+
+  const prepared = await Promise.all(
+    reports.map(async (report): Promise<QueuedReport | null> => {
+      if (report.prepared) return report;
+
+      try {
+        const error = await hook(report.payload.error);
+        return error ? { ...report, prepared: true, payload: { ...report.payload, error } } : null;
+      } catch (e) {
+        console.warn('[Appily] Pre-send hook failed, sending the original report:', e);
+        return { ...report, prepared: true };
+      }
+    })
+  );
+
+  const results = new Map(reports.map((report, i) => [report.id, prepared[i]]));
+  saveQueue(
+    loadQueue().flatMap((report) => {
+      if (!results.has(report.id)) return [report];
+      const result = results.get(report.id);
+      return result ? [result] : [];
+    })
+  );
+
+  return prepared.filter((report): report is QueuedReport => report !== null);
+}
+
+/**
+ * Deliver queued error reports, oldest first
+ *
+ * Called automatically after every report, when the app returns to the
+ * foreground and when the network comes back. Failed deliveries are retried
+ * with exponential backoff; reports older than a day are dropped.
  */
-function parseStackTrace(stack?: string): { filename?: string; lineNumber?: number; columnNumber?: number } {
-  if (!stack) return {};
+export function flushErrorReports(): Promise<void> {
+  if (!CONFIG.projectId) {
+    return Promise.resolve();
+  }
+
+  if (!flushPromise) {
+    flushPromise = (async () => {
+      const cutoff = Date.now() - MAX_REPORT_AGE_MS;
+      saveQueue(loadQueue().filter((report) => report.queuedAt > cutoff));
+
+      while (loadQueue().length > 0) {
+        const batch = await prepareReports(loadQueue().slice(0, BATCH_SIZE));
+
+        for (const report of batch) {
+          const result = await sendReport(report);
 
-  // Match common stack trace patterns
-  // Example: "at ComponentName (filename.tsx:123:45)"
-  // Or: "filename.tsx:123:45"
-  const patterns = [
-    /at\s+\S+\s+\(([^:]+):(\d+):(\d+)\)/,
-    /at\s+([^:]+):(\d+):(\d+)/,
-    /([^:\s]+):(\d+):(\d+)/,
-  ];
+          if (result === 'retry') {
+            failedFlushes++;
+            scheduleRetry();
+            return;
+          }
 
-  const lines = stack.split('\n');
-  for (const line of lines) {
-    for (const pattern of patterns) {
-      const match = line.match(pattern);
-      if (match) {
-        return {
-          filename: match[1],
-          lineNumber: parseInt(match[2], 10),
-          columnNumber: parseInt(match[3], 10),
-        };
+          // Reports queued while this one was in flight stay in the queue
+          saveQueue(loadQueue().filter((queued) => queued.id !== report.id));
+          failedFlushes = 0;
+        }
       }
+    })().finally(() => {
+      flushPromise = null;
+    });
+  }
+
+  return flushPromise;
+}
+
+/**
+ * Set a function that can change or drop each error right before it is sent,
+ * e.g. to symbolicate bundle frames or remove personal data
+ *
+ * The hook runs once per report when it is delivered, not when it is reported,
+ * so it never delays writing a fatal error to disk. If it throws, the original
+ * report is sent.
+ *
+ * @param hook - The hook, or null to remove it
+ *
+ * @example
+ * import { symbolicateWithMetro } from '@/lib/symbolicate';
+ *
+ * if (__DEV__) {
+ *   setBeforeSendHook(symbolicateWithMetro);
+ * }
+ */
+export function setBeforeSendHook(hook: BeforeSendHook | null): void {
+  beforeSend = hook;
+}
+
+/**
+ * Start delivering queued reports: sends what is left from the last launch and
+ * flushes again whenever the app is foregrounded or the network comes back
+ *
+ * Safe to call more than once.
+ */
+export function startErrorReportQueue(): void {
+  if (queueStarted || !CONFIG.projectId) return;
+  queueStarted = true;
+
+  flushErrorReports();
+
+  AppState.addEventListener('change', (state) => {
+    if (state === 'active') {
+      flushErrorReports();
     }
+  });
+
+  try {
+    Network.addNetworkStateListener((state) => {
+      if (state.isConnected && state.isInternetReachable !== false) {
+        flushErrorReports();
+      }
+    });
+  } catch (e) {
+    console.warn('[Appily] Network state unavailable, retrying reports on a timer only:', e);
   }
+}
+
+/**
+ * Record something the user or app did, to be sent with the next error report
+ *
+ * Navigation, AI calls, console warnings and app state changes are recorded
+ * automatically once startBreadcrumbs has run. Only the last 30 are kept.
+ *
+ * @example
+ * addBreadcrumb({ category: 'cart', message: 'Checkout started', data: { items: 3 } });
+ */
+export function addBreadcrumb(
+  breadcrumb: Omit<Breadcrumb, 'level' | 'timestamp'> & Partial<Pick<Breadcrumb, 'level' | 'timestamp'>>
+): void {
+  const message =
+    breadcrumb.message.length > MAX_BREADCRUMB_MESSAGE_LENGTH
+      ? `${breadcrumb.message.substring(0, MAX_BREADCRUMB_MESSAGE_LENGTH)}...`
+      : breadcrumb.message;
 
-  return {};
+  breadcrumbs.push({
+    ...breadcrumb,
+    message,
+    level: breadcrumb.level ?? 'info',
+    timestamp: breadcrumb.timestamp ?? new Date().toISOString(),
+  });
+  if (breadcrumbs.length > MAX_BREADCRUMBS) {
+    breadcrumbs.shift();
+  }
+}
+
+/**
+ * Turn console.warn arguments into a single line
+ */
+function formatConsoleArgs(args: unknown[]): string {
+  return args
+    .map((arg) => {
+      if (typeof arg === 'string') return arg;
+      if (arg instanceof Error) return arg.message;
+      try {
+        return JSON.stringify(arg);
+      } catch {
+        return String(arg);
+      }
+    })
+    .join(' ');
+}
+
+/**
+ * Record console warnings and app state changes as breadcrumbs
+ *
+ * Navigation is recorded by the root layout, AI calls by lib/ai.ts.
+ * Safe to call more than once.
+ */
+export function startBreadcrumbs(): void {
+  if (breadcrumbsStarted) return;
+  breadcrumbsStarted = true;
+
+  const originalWarn = console.warn;
+  console.warn = (...args: unknown[]) => {
+    addBreadcrumb({ category: 'console', message: formatConsoleArgs(args), level: 'warning' });
+    originalWarn(...args);
+  };
+
+  AppState.addEventListener('change', (state) => {
+    addBreadcrumb({ category: 'app_state', message: `App became ${state}` });
+  });
 }
 
 /**
@@ -100,6 +467,8 @@ function parseStackTrace(stack?: string): { filename?: string; lineNumber?: numb
  *
  * Features:
  * - Deduplicates identical errors within 5 seconds
+ * - Writes the report to disk before sending, so it survives going offline
+ *   or the app being killed, and delivers it with any other queued reports
  * - Silently fails if network unavailable (won't break the app)
  * - Skips reporting if projectId not configured
  *
@@ -112,12 +481,15 @@ export function reportError(error: RuntimeError): void {
     return;
   }
 
-  // Parse stack trace for location info if not provided
-  if (!error.filename && error.stack) {
-    const parsed = parseStackTrace(error.stack);
-    error.filename = parsed.filename;
-    error.lineNumber = parsed.lineNumber;
-    error.columnNumber = parsed.columnNumber;
+  // Parse the stack and blame the first in-app frame, not React or node_modules
+  if (!error.frames && error.stack) {
+    error.frames = parseStack(error.stack);
+  }
+  if (!error.filename && error.frames) {
+    const frame = getFirstInAppFrame(error.frames);
+    error.filename = frame?.file;
+    error.lineNumber = frame?.line;
+    error.columnNumber = frame?.column;
   }
 
   // Deduplicate rapid-fire errors (same error within 5 seconds)
@@ -138,6 +510,16 @@ export function reportError(error: RuntimeError): void {
   if (error.componentStack && error.componentStack.length > MAX_STACK_LENGTH) {
     error.componentStack = error.componentStack.substring(0, MAX_STACK_LENGTH) + '\n... (truncated)';
   }
+  if (error.tags) {
+    error.tags = Object.fromEntries(
+      Object.entries(error.tags)
+        .slice(0, MAX_TAGS)
+        .map(([key, value]) => [key, String(value).substring(0, MAX_TAG_LENGTH)])
+    );
+  }
+  if (error.extra) {
+    error.extra = truncateExtra(error.extra);
+  }
 
   const payload: ErrorReportPayload = {
     projectId: CONFIG.projectId,
@@ -146,26 +528,99 @@ export function reportError(error: RuntimeError): void {
       platform: Platform.OS,
       version: String(Platform.Version ?? 'unknown'),
     },
+    breadcrumbs: [...breadcrumbs],
   };
 
-  const url = `${CONFIG.apiEndpoint}/api/errors/report`;
+  // Oldest reports are dropped first when the queue is full
+  const report: QueuedReport = {
+    id: `${now.toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    queuedAt: now,
+    payload,
+  };
+  saveQueue([...loadQueue(), report].slice(-MAX_QUEUED_REPORTS));
 
-  try {
-    // Use XMLHttpRequest for more reliable delivery during error handling
-    // fetch() can be interrupted by the error handler, but XHR is more resilient
-    const xhr = new XMLHttpRequest();
-    xhr.open('POST', url, true);
-    xhr.setRequestHeader('Content-Type', 'application/json');
+  // While backing off, the scheduled retry will pick this report up
+  if (!retryTimer) {
+    flushErrorReports();
+  }
+}
 
-    xhr.onerror = () => {
-      console.warn('[Appily] Error report failed (network error)');
-    };
+/**
+ * Make extra context JSON-safe and keep it under MAX_EXTRA_LENGTH
+ */
+function truncateExtra(extra: Record<string, unknown>): Record<string, unknown> {
+  let serialized: string;
+  try {
+    serialized = JSON.stringify(extra, (_, value) =>
+      value instanceof Error ? { name: value.name, message: value.message } : value
+    );
+  } catch {
+    return { unserializable: String(extra) };
+  }
 
-    xhr.send(JSON.stringify(payload));
-  } catch (e) {
-    // Silently fail - don't break the app if error reporting fails
-    console.warn('[Appily] Error reporting failed:', e);
+  if (serialized.length <= MAX_EXTRA_LENGTH) {
+    return JSON.parse(serialized) as Record<string, unknown>;
   }
+  return { truncated: serialized.substring(0, MAX_EXTRA_LENGTH) + '... (truncated)' };
+}
+
+/**
+ * Report an error the app caught and handled itself
+ *
+ * Goes through the same deduplication, truncation and offline queue as
+ * automatic reports, with errorType 'handled_error'.
+ *
+ * @param error - The caught error (non-Error values are converted to text)
+ * @param context - Optional severity, tags and extra details
+ *
+ * @example
+ * try {
+ *   const { object } = await generateObject<Recipe>(prompt, recipeSchema);
+ * } catch (error) {
+ *   captureException(error, { tags: { feature: 'recipes' }, extra: { prompt } });
+ *   showFallback();
+ * }
+ */
+export function captureException(error: unknown, context?: CaptureContext): void {
+  // Errors with a code (e.g. AIError) get it as a tag so they can be grouped
+  const code = (error as { code?: unknown } | null)?.code;
+
+  reportError({
+    message: error instanceof Error ? error.message || error.name : String(error),
+    stack: error instanceof Error ? error.stack : undefined,
+    errorType: 'handled_error',
+    level: context?.level ?? 'error',
+    tags: typeof code === 'string' ? { code, ...context?.tags } : context?.tags,
+    extra: context?.extra,
+    timestamp: new Date().toISOString(),
+  });
+}
+
+/**
+ * Report a notable event that isn't an exception
+ *
+ * @param text - What happened
+ * @param level - Severity (default: 'info')
+ * @param context - Optional tags and extra details
+ *
+ * @example
+ * captureMessage('Checkout finished without a payment method', 'warning', {
+ *   tags: { feature: 'checkout' },
+ * });
+ */
+export function captureMessage(
+  text: string,
+  level: SeverityLevel = 'info',
+  context?: Omit<CaptureContext, 'level'>
+): void {
+  reportError({
+    message: text,
+    errorType: 'handled_error',
+    level,
+    tags: context?.tags,
+    extra: context?.extra,
+    timestamp: new Date().toISOString(),
+  });
 }
 
 /**
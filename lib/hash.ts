@@ -0,0 +1,32 @@
+/**
+ * String Hash - Small, stable, non-cryptographic hash shared by the lib modules
+ *
+ * Used for cache keys, picking mock responses and A/B version assignment.
+ * Never use it for anything security related.
+ */
+
+/**
+ * 53-bit string hash (cyrb53)
+ *
+ * Well mixed, so similar inputs (user-1, user-2, ...) spread evenly, and
+ * large inputs such as base64 images still make short keys.
+ *
+ * @param value - Any string
+ * @returns An integer from 0 to 2^53 - 1, the same for the same string on every device
+ *
+ * @example
+ * hashString('hello').toString(36); // short cache key
+ * hashString(key) / 2 ** 53; // number in [0, 1)
+ */
+export function hashString(value: string): number {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < value.length; i++) {
+    const char = value.charCodeAt(i);
+    h1 = Math.imul(h1 ^ char, 2654435761);
+    h2 = Math.imul(h2 ^ char, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return 4294967296 * (2097151 & h2) + (h1 >>> 0);
+}
@@ -0,0 +1,185 @@
+/**
+ * Stack Trace Parser - Turns JS stack strings into structured frames
+ *
+ * Understands the formats a React Native app produces:
+ * - Hermes:  "at handlePress (http://192.168.1.5:8081/index.bundle//&platform=ios:1234:56)"
+ *            "at anonymous (address at index.android.bundle:1:2345)"
+ * - JSC:     "handlePress@http://localhost:8081/index.bundle?platform=ios:1234:56"
+ * - V8 (web and remote debugging): "at async HomeScreen (app/index.tsx:12:5)"
+ *
+ * Each frame is flagged as in-app or not, so error reports can point at the
+ * app's own code instead of React, React Native or node_modules internals.
+ */
+
+/**
+ * One call site from a stack trace
+ */
+export interface StackFrame {
+  /** Function name, or '<anonymous>' when the engine didn't give one */
+  function: string;
+  /** Source file, or the bundle path (host and query removed) before symbolication */
+  file: string;
+  line?: number;
+  column?: number;
+  /** Whether the frame is (probably) the app's own code */
+  inApp: boolean;
+}
+
+// Frames kept per stack - the rest is almost always framework plumbing
+const MAX_FRAMES = 50;
+
+// "at fn (location)", "at async fn (location)", "at new Class (location)"
+const V8_FRAME_WITH_FUNCTION = /^at (?:async |new )?(.*?) \((.*)\)$/;
+// "at location"
+const V8_FRAME = /^at (?:async )?(\S+)$/;
+// "fn@location" or "@location" - JSC names have no spaces apart from "global code" and friends
+const JSC_FRAME = /^((?:global|module|eval) code|[^\s@]*)@(\S+)$/;
+const LOCATION = /^(.*?):(\d+):(\d+)$/;
+// A URL, a path, or a file name with a source/bundle extension - not "user@example.com:80:1"
+const FILE_LIKE = /^[a-z][\w+.-]*:\/\/|\/|\\|\.(m?[jt]sx?|cjs|bundle|jsbundle|hbc)$/i;
+// First line of a stack: "TypeError: message" (or just the name)
+const MESSAGE_HEADER = /^[A-Za-z_$][\w$.]*(:\s|:?$)/;
+
+const BUNDLE_FILE = /\.(bundle|jsbundle)$/;
+const NATIVE_LOCATION = /^(native|\[native code\])$/;
+const NATIVE_FILE = /^(native|\[native code\])$|InternalBytecode/;
+const LIBRARY_FILE = /(^|\/)node_modules\/|\/react-native\/Libraries\//;
+
+// React, React Native and Promise internals that show up in unsymbolicated bundle stacks
+const FRAMEWORK_FUNCTION =
+  /^(__guard\w*|__callFunction|callFunctionReturnFlushedQueue|invokeCallbackAndReturnFlushedQueue|flushedQueue|renderWithHooks|beginWork\$?\d*|performUnitOfWork|workLoop\w*|performWork\w*|performSyncWorkOnRoot|commitRoot\w*|commit\w+Effects\w*|flushPassiveEffects\w*|invokeGuardedCallback\w*|runWithFiberInDEV|callCallback\w*|dispatchEvent\w*|batchedUpdates\w*|executeDispatch\w*|processEventQueue|_receiveSignal|_performTransitionSideEffects|touchableHandle\w*|tryCallOne|tryCallTwo|doResolve|asyncGeneratorStep|_next|_throw|apply|call|global( code)?|\?anon_\d+_?)$/;
+
+/**
+ * Split "file:line:column" into its parts
+ */
+function parseLocation(location: string): Pick<StackFrame, 'file' | 'line' | 'column'> | null {
+  const cleaned = location.replace(/^address at /, '').trim();
+
+  if (NATIVE_LOCATION.test(cleaned)) {
+    return { file: cleaned };
+  }
+
+  const match = cleaned.match(LOCATION);
+  if (!match || !FILE_LIKE.test(match[1])) {
+    return null;
+  }
+
+  return {
+    file: normalizeFile(match[1]),
+    line: parseInt(match[2], 10),
+    column: parseInt(match[3], 10),
+  };
+}
+
+/**
+ * Drop the Metro host and query string from bundle URLs
+ *
+ * "http://192.168.1.5:8081/index.bundle//&platform=ios&dev=true" -> "/index.bundle"
+ */
+function normalizeFile(file: string): string {
+  return file
+    .replace(/^https?:\/\/[^/]+/, '')
+    .replace(/(\?|\/\/&).*$/, '');
+}
+
+/**
+ * Whether a file is a Metro bundle rather than an original source file
+ */
+export function isBundleFile(file: string): boolean {
+  return BUNDLE_FILE.test(file);
+}
+
+/**
+ * Guess whether a frame is the app's own code
+ *
+ * Before symbolication every frame points at the same bundle file, so the
+ * function name is the only hint there.
+ */
+export function isInAppFrame(fn: string, file: string): boolean {
+  if (NATIVE_FILE.test(file)) {
+    return false;
+  }
+  if (BUNDLE_FILE.test(file)) {
+    return !FRAMEWORK_FUNCTION.test(fn);
+  }
+  return !LIBRARY_FILE.test(file);
+}
+
+/**
+ * Parse one line of a stack trace, or return null if it isn't a frame
+ */
+function parseFrame(line: string): StackFrame | null {
+  let fn = '';
+  let location: ReturnType<typeof parseLocation> = null;
+
+  const v8WithFunction = line.match(V8_FRAME_WITH_FUNCTION);
+  const v8 = line.match(V8_FRAME);
+  const jsc = line.match(JSC_FRAME);
+
+  if (v8WithFunction) {
+    fn = v8WithFunction[1];
+    location = parseLocation(v8WithFunction[2]);
+  } else if (v8) {
+    location = parseLocation(v8[1]);
+  } else if (line === '[native code]') {
+    location = { file: line };
+  } else if (jsc) {
+    fn = jsc[1];
+    location = parseLocation(jsc[2]);
+  }
+
+  // Lines of the error message itself never have a file:line location
+  if (!location || (location.line === undefined && !NATIVE_LOCATION.test(location.file))) {
+    return null;
+  }
+
+  const name = fn.trim() || '<anonymous>';
+  return { function: name, ...location, inApp: isInAppFrame(name, location.file) };
+}
+
+/**
+ * Parse a Hermes, JSC or V8 stack trace into frames, innermost call first
+ *
+ * The leading "Name: message" lines and anything else that isn't a frame are
+ * skipped. A frame needs a line and column in a path- or URL-like file.
+ *
+ * @param stack - The `stack` property of an Error
+ * @returns Up to 50 frames
+ *
+ * @example
+ * const frames = parseStack(error.stack);
+ * const culprit = getFirstInAppFrame(frames);
+ * console.log(`${culprit?.function} at ${culprit?.file}:${culprit?.line}`);
+ */
+export function parseStack(stack?: string): StackFrame[] {
+  if (!stack) return [];
+
+  const lines = stack.split('\n').map((line) => line.trim());
+
+  // Skip the error message, which may span several lines and contain things
+  // that look like locations, up to the first real frame
+  let start = 0;
+  if (MESSAGE_HEADER.test(lines[0]) && !parseFrame(lines[0])) {
+    start = 1;
+    while (start < lines.length && !parseFrame(lines[start])) start++;
+  }
+
+  const frames: StackFrame[] = [];
+  for (const line of lines.slice(start)) {
+    const frame = parseFrame(line);
+    if (frame) {
+      frames.push(frame);
+      if (frames.length >= MAX_FRAMES) break;
+    }
+  }
+  return frames;
+}
+
+/**
+ * The frame to blame for an error: the first in-app frame with a location,
+ * falling back to the first frame with a location
+ */
+export function getFirstInAppFrame(frames: StackFrame[]): StackFrame | undefined {
+  const located = frames.filter((frame) => frame.line !== undefined);
+  return located.find((frame) => frame.inApp) ?? located[0];
+}
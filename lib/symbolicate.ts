@@ -0,0 +1,114 @@
+/**
+ * Symbolication - Maps bundled stack frames back to original source files
+ *
+ * While developing, every stack frame points into the Metro bundle
+ * (e.g. index.bundle:48213:17), which says nothing about where the bug is.
+ * symbolicateWithMetro asks the Metro dev server, which holds the source map,
+ * to translate frames to the original TypeScript files and lines.
+ *
+ * It is installed as the error reporter's pre-send hook in development:
+ *   setBeforeSendHook(symbolicateWithMetro);
+ *
+ * For release bundles, symbolicate reports on your machine instead with
+ * scripts/symbolicate.js and the source map from `npx expo export --source-maps`.
+ */
+
+import { NativeModules } from 'react-native';
+
+import type { RuntimeError } from '@/lib/error-reporter';
+import { getFirstInAppFrame, isBundleFile, isInAppFrame, type StackFrame } from '@/lib/stack-trace';
+
+// Don't hold up error delivery for long if Metro is slow or gone
+const SYMBOLICATE_TIMEOUT_MS = 5000;
+
+/**
+ * Frame format used by Metro's /symbolicate endpoint (0-based columns)
+ */
+interface MetroStackFrame {
+  methodName: string;
+  file: string | null;
+  lineNumber: number | null;
+  column: number | null;
+}
+
+/**
+ * URL the JS bundle was loaded from, if it came from a dev server
+ */
+function getBundleURL(): string | null {
+  const sourceCode = NativeModules.SourceCode as
+    | { scriptURL?: string; getConstants?: () => { scriptURL?: string } }
+    | undefined;
+  const scriptURL = sourceCode?.getConstants?.().scriptURL ?? sourceCode?.scriptURL;
+
+  return typeof scriptURL === 'string' && /^https?:\/\//.test(scriptURL) ? scriptURL : null;
+}
+
+/**
+ * Replace bundle frames with original file/line/column using the Metro dev server
+ *
+ * Returns the error unchanged when it has no bundle frames or the app wasn't
+ * loaded from a dev server (e.g. a release build). Throws if Metro can't be
+ * reached, in which case the reporter sends the original error.
+ *
+ * @param error - The error about to be reported
+ * @returns The error with symbolicated `frames`, `filename`, `lineNumber` and `columnNumber`
+ */
+export async function symbolicateWithMetro(error: RuntimeError): Promise<RuntimeError> {
+  const frames = error.frames;
+  const bundleURL = getBundleURL();
+  if (!bundleURL || !frames?.some((frame) => isBundleFile(frame.file))) {
+    return error;
+  }
+
+  const origin = bundleURL.match(/^https?:\/\/[^/]+/)![0];
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), SYMBOLICATE_TIMEOUT_MS);
+
+  try {
+    const stack: MetroStackFrame[] = frames.map((frame) => ({
+      methodName: frame.function,
+      // Frames were normalized to the bundle path - Metro needs the full URL with its query
+      file: isBundleFile(frame.file) ? bundleURL : frame.file,
+      lineNumber: frame.line ?? null,
+      column: frame.column !== undefined ? frame.column - 1 : null,
+    }));
+
+    const response = await fetch(`${origin}/symbolicate`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ stack }),
+      signal: controller.signal,
+    });
+    if (!response.ok) {
+      throw new Error(`Metro symbolication failed (HTTP ${response.status})`);
+    }
+
+    const data = (await response.json()) as { stack?: MetroStackFrame[] };
+    const symbolicated: StackFrame[] = frames.map((frame, i) => {
+      const result = data.stack?.[i];
+      if (!result?.file || result.lineNumber === null) {
+        return frame;
+      }
+
+      const name = result.methodName || frame.function;
+      return {
+        function: name,
+        file: result.file,
+        line: result.lineNumber,
+        column: result.column !== null ? result.column + 1 : undefined,
+        inApp: isInAppFrame(name, result.file),
+      };
+    });
+
+    const culprit = getFirstInAppFrame(symbolicated);
+    return {
+      ...error,
+      frames: symbolicated,
+      filename: culprit?.file ?? error.filename,
+      lineNumber: culprit?.line ?? error.lineNumber,
+      columnNumber: culprit?.column ?? error.columnNumber,
+    };
+  } finally {
+    clearTimeout(timer);
+  }
+}
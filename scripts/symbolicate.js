@@ -0,0 +1,188 @@
+#!/usr/bin/env node
+
+/**
+ * This script maps bundled stack traces back to the original source files using a Metro source map.
+ * Pass it the source map of the bundle that crashed and an error report (JSON) or a raw stack trace.
+ *
+ * Usage:
+ *   npx expo export --platform ios --source-maps
+ *   node ./scripts/symbolicate.js dist/_expo/static/js/ios/<bundle>.map report.json
+ *   pbpaste | node ./scripts/symbolicate.js dist/_expo/static/js/ios/<bundle>.map
+ *
+ * JSON input can be a single error (RuntimeError), an error report payload, a batch
+ * ({ reports: [...] }) or an array of those; it is printed back with `stack`, `frames`,
+ * `filename`, `lineNumber` and `columnNumber` rewritten. Any other input is treated as
+ * stack trace text and printed back with every location mapped.
+ *
+ * For Hermes bytecode bundles, use the composed Hermes source map so bytecode offsets resolve.
+ */
+
+const fs = require("fs");
+const path = require("path");
+const { SourceMapConsumer } = require("source-map");
+
+const root = process.cwd();
+
+// "file:line:column" at the end of a frame, optionally in parentheses
+const locationPattern = /(\(?)((?:address at )?[^\s()@]*?):(\d+):(\d+)(\)?)$/;
+
+const usage = () => {
+  console.log("Usage: node ./scripts/symbolicate.js <source-map> [report.json | stack.txt]");
+  console.log("Reads from stdin when no input file is given.");
+};
+
+const readInput = (inputPath) =>
+  inputPath ? fs.readFileSync(inputPath, "utf8") : fs.readFileSync(0, "utf8");
+
+/**
+ * Make absolute source paths relative to the project so they are easy to open
+ */
+const toProjectPath = (source) => {
+  const filePath = source.replace(/^file:\/\//, "");
+  return path.isAbsolute(filePath) ? path.relative(root, filePath) : filePath;
+};
+
+/**
+ * Look up the original position of a bundle position
+ * Stack traces use 1-based columns, source maps use 0-based columns
+ */
+const lookup = (consumer, line, column) => {
+  const original = consumer.originalPositionFor({ line, column: Math.max(0, column - 1) });
+  if (!original.source || original.line == null) {
+    return null;
+  }
+  return {
+    file: toProjectPath(original.source),
+    line: original.line,
+    column: original.column + 1,
+    name: original.name,
+  };
+};
+
+const symbolicateStack = (consumer, stack) =>
+  stack
+    .split("\n")
+    .map((line) => {
+      const trimmed = line.trimEnd();
+      const match = trimmed.match(locationPattern);
+      if (!match) {
+        return line;
+      }
+
+      const original = lookup(consumer, parseInt(match[3], 10), parseInt(match[4], 10));
+      if (!original) {
+        return line;
+      }
+
+      const location = `${original.file}:${original.line}:${original.column}`;
+      return trimmed.slice(0, match.index) + `${match[1]}${location}${match[5]}`;
+    })
+    .join("\n");
+
+const symbolicateFrames = (consumer, frames) =>
+  frames.map((frame) => {
+    if (frame.line == null || frame.column == null) {
+      return frame;
+    }
+
+    const original = lookup(consumer, frame.line, frame.column);
+    if (!original) {
+      return frame;
+    }
+
+    return {
+      ...frame,
+      function: original.name || frame.function,
+      file: original.file,
+      line: original.line,
+      column: original.column,
+      inApp: !/(^|\/)node_modules\//.test(original.file),
+    };
+  });
+
+/**
+ * Rewrite one RuntimeError in place
+ */
+const symbolicateError = (consumer, error) => {
+  if (typeof error.stack === "string") {
+    error.stack = symbolicateStack(consumer, error.stack);
+  }
+
+  if (Array.isArray(error.frames)) {
+    error.frames = symbolicateFrames(consumer, error.frames);
+
+    const located = error.frames.filter((frame) => frame.line != null);
+    const frame = located.find((candidate) => candidate.inApp) || located[0];
+    if (frame) {
+      error.filename = frame.file;
+      error.lineNumber = frame.line;
+      error.columnNumber = frame.column;
+    }
+  } else if (error.lineNumber != null && error.columnNumber != null) {
+    const original = lookup(consumer, error.lineNumber, error.columnNumber);
+    if (original) {
+      error.filename = original.file;
+      error.lineNumber = original.line;
+      error.columnNumber = original.column;
+    }
+  }
+
+  return error;
+};
+
+/**
+ * Find every RuntimeError in a report, payload, batch or array
+ */
+const collectErrors = (value) => {
+  if (Array.isArray(value)) {
+    return value.flatMap(collectErrors);
+  }
+  if (!value || typeof value !== "object") {
+    return [];
+  }
+  if (Array.isArray(value.reports)) {
+    return collectErrors(value.reports);
+  }
+  if (value.error && typeof value.error === "object") {
+    return [value.error];
+  }
+  return typeof value.message === "string" ? [value] : [];
+};
+
+const main = () => {
+  const [mapPath, inputPath] = process.argv.slice(2);
+  if (!mapPath || mapPath === "--help" || mapPath === "-h") {
+    usage();
+    process.exit(mapPath ? 0 : 1);
+  }
+
+  let consumer;
+  try {
+    consumer = new SourceMapConsumer(JSON.parse(fs.readFileSync(mapPath, "utf8")));
+  } catch (error) {
+    console.error(`❌ Could not read source map ${mapPath}: ${error.message}`);
+    process.exit(1);
+  }
+
+  const input = readInput(inputPath);
+
+  let json;
+  try {
+    json = JSON.parse(input);
+  } catch {
+    // Not JSON - treat the input as a raw stack trace
+    console.log(symbolicateStack(consumer, input));
+    return;
+  }
+
+  const errors = collectErrors(json);
+  if (errors.length === 0) {
+    console.error("❌ No errors found in the JSON input.");
+    process.exit(1);
+  }
+
+  errors.forEach((error) => symbolicateError(consumer, error));
+  console.log(JSON.stringify(json, null, 2));
+};
+
+main();